@@ -0,0 +1,37 @@
+export type Currency = "NGN" | "GHS" | "KES" | "ZAR" | "USD";
+
+interface CurrencyInfo {
+  name: string;
+  minorUnit: string; // Name of the unit amounts are stored in
+  decimals: number; // Minor units per major unit = 10 ** decimals
+}
+
+/**
+ * Currencies wallets can hold. Every amount in the system is an integer in
+ * the currency's minor unit, which is also what Paystack expects.
+ */
+export const CURRENCIES: Record<Currency, CurrencyInfo> = {
+  NGN: { name: "Nigerian Naira", minorUnit: "kobo", decimals: 2 },
+  GHS: { name: "Ghanaian Cedi", minorUnit: "pesewas", decimals: 2 },
+  KES: { name: "Kenyan Shilling", minorUnit: "cents", decimals: 2 },
+  ZAR: { name: "South African Rand", minorUnit: "cents", decimals: 2 },
+  USD: { name: "US Dollar", minorUnit: "cents", decimals: 2 },
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(CURRENCIES) as Currency[];
+
+export const DEFAULT_CURRENCY: Currency = "NGN";
+
+export const isSupportedCurrency = (value: unknown): value is Currency =>
+  typeof value === "string" && SUPPORTED_CURRENCIES.includes(value as Currency);
+
+/**
+ * Format an amount in minor units as major units, e.g. 150050 -> "1,500.50"
+ */
+export const formatAmount = (amount: number, currency: Currency): string => {
+  const { decimals } = CURRENCIES[currency];
+  return (amount / 10 ** decimals).toLocaleString("en-US", {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+};
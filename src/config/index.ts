@@ -15,11 +15,81 @@ interface Config {
   paystack: {
     secretKey: string;
     webhookSecret: string;
+    dedicatedAccountBank: string; // Preferred bank slug for virtual accounts
+    timeoutMs: number; // Per request, well inside the idempotency lease
   };
   appBaseUrl: string;
-  frontendSuccessUrl: string;
+  frontendSuccessUrl: string; // Where the Paystack callback sends paid deposits
+  frontendFailureUrl: string; // ...and deposits that failed or are not settled yet
+  adminEmails: string[];
+  trustProxy: number; // Reverse proxies in front of the app, for req.ip
+  apiKeys: {
+    signatureToleranceSeconds: number; // Max clock skew of a signed request
+  };
+  fx: {
+    spreadBps: number; // Margin taken off the mid-market rate, in basis points
+    quoteTtlSeconds: number;
+    ratesUrl: string; // Live rate provider; conversions are refused without one
+    ratesCacheSeconds: number;
+  };
+  scheduler: {
+    enabled: boolean;
+    intervalSeconds: number;
+    maxRetries: number; // Failed attempts allowed per occurrence
+    retryDelayMinutes: number;
+  };
+  depositReconciliation: {
+    enabled: boolean;
+    intervalSeconds: number;
+    staleAfterMinutes: number; // Pending deposits younger than this are left alone
+    abandonAfterHours: number; // Unpaid deposits older than this are failed
+    batchSize: number; // Deposits checked per run
+  };
+  ledgerReconciliation: {
+    enabled: boolean;
+    intervalSeconds: number; // How often to check for yesterday's report
+  };
+  outboundWebhooks: {
+    enabled: boolean; // Retries; first attempts always run
+    intervalSeconds: number;
+    maxAttempts: number; // A delivery fails after this many attempts
+    retryBaseSeconds: number; // Delay before the first retry, doubled each time
+    timeoutMs: number; // How long an endpoint has to answer
+  };
+  keyRotation: {
+    enabled: boolean; // Expiry warnings and revoking rotated keys
+    intervalSeconds: number;
+    graceHours: number; // How long a rotated key keeps working by default
+    maxGraceHours: number;
+    warningDays: number[]; // Expiry warnings go out this many days before expiry
+  };
+  rateLimit: {
+    enabled: boolean;
+    store: string; // "memory" (per instance) or "mongo" (shared)
+    windowSeconds: number;
+    defaultLimit: number; // Requests per window on routes without a permission
+    ipLimit: number; // Per client IP on every route, counted before authentication
+    permissions: Record<string, number>; // Shared by every route needing the permission
+    routes: Record<string, number>; // Per route, e.g. "POST /wallet/deposit"
+  };
 }
 
+const parseLimit = (value: string | undefined, fallback: number) =>
+  parseInt(value || String(fallback), 10);
+
+// "POST /wallet/deposit=10,POST /wallet/withdraw=5"
+const parseRouteLimits = (value: string) =>
+  Object.fromEntries(
+    value
+      .split(",")
+      .map((entry) => entry.split("="))
+      .filter(([route, limit]) => route?.trim() && limit?.trim())
+      .map(([route, limit]) => [
+        route.trim().replace(/\s+/g, " "),
+        parseInt(limit.trim(), 10),
+      ])
+  );
+
 const config: Config = {
   port: parseInt(process.env.PORT || "3000", 10),
   nodeEnv: process.env.NODE_ENV || "development",
@@ -35,10 +105,122 @@ const config: Config = {
   paystack: {
     secretKey: process.env.PAYSTACK_SECRET_KEY || "",
     webhookSecret: process.env.PAYSTACK_WEBHOOK_SECRET || "",
+    dedicatedAccountBank:
+      process.env.PAYSTACK_DEDICATED_ACCOUNT_BANK || "wema-bank",
+    timeoutMs: parseInt(process.env.PAYSTACK_TIMEOUT_MS || "20000", 10),
   },
   appBaseUrl: process.env.APP_BASE_URL || "http://localhost:3000",
   frontendSuccessUrl:
     process.env.FRONTEND_SUCCESS_URL || "http://localhost:3000/payment-success",
+  frontendFailureUrl:
+    process.env.FRONTEND_FAILURE_URL || "http://localhost:3000/payment-failed",
+  adminEmails: (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean),
+  trustProxy: parseInt(process.env.TRUST_PROXY || "0", 10),
+  apiKeys: {
+    signatureToleranceSeconds: parseInt(
+      process.env.API_KEY_SIGNATURE_TOLERANCE_SECONDS || "300",
+      10
+    ),
+  },
+  fx: {
+    spreadBps: parseInt(process.env.FX_SPREAD_BPS || "150", 10),
+    quoteTtlSeconds: parseInt(process.env.FX_QUOTE_TTL_SECONDS || "60", 10),
+    ratesUrl: process.env.FX_RATES_URL || "",
+    ratesCacheSeconds: parseInt(process.env.FX_RATES_CACHE_SECONDS || "60", 10),
+  },
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== "false",
+    intervalSeconds: parseInt(
+      process.env.SCHEDULER_INTERVAL_SECONDS || "60",
+      10
+    ),
+    maxRetries: parseInt(process.env.SCHEDULED_TRANSFER_MAX_RETRIES || "3", 10),
+    retryDelayMinutes: parseInt(
+      process.env.SCHEDULED_TRANSFER_RETRY_DELAY_MINUTES || "60",
+      10
+    ),
+  },
+  depositReconciliation: {
+    enabled: process.env.DEPOSIT_RECONCILIATION_ENABLED !== "false",
+    intervalSeconds: parseInt(
+      process.env.DEPOSIT_RECONCILIATION_INTERVAL_SECONDS || "300",
+      10
+    ),
+    staleAfterMinutes: parseInt(
+      process.env.DEPOSIT_RECONCILIATION_STALE_AFTER_MINUTES || "15",
+      10
+    ),
+    abandonAfterHours: parseInt(
+      process.env.DEPOSIT_RECONCILIATION_ABANDON_AFTER_HOURS || "24",
+      10
+    ),
+    batchSize: parseInt(
+      process.env.DEPOSIT_RECONCILIATION_BATCH_SIZE || "100",
+      10
+    ),
+  },
+  ledgerReconciliation: {
+    enabled: process.env.LEDGER_RECONCILIATION_ENABLED !== "false",
+    intervalSeconds: parseInt(
+      process.env.LEDGER_RECONCILIATION_INTERVAL_SECONDS || "3600",
+      10
+    ),
+  },
+  outboundWebhooks: {
+    enabled: process.env.OUTBOUND_WEBHOOKS_ENABLED !== "false",
+    intervalSeconds: parseInt(
+      process.env.OUTBOUND_WEBHOOKS_INTERVAL_SECONDS || "15",
+      10
+    ),
+    maxAttempts: parseInt(
+      process.env.OUTBOUND_WEBHOOKS_MAX_ATTEMPTS || "8",
+      10
+    ),
+    retryBaseSeconds: parseInt(
+      process.env.OUTBOUND_WEBHOOKS_RETRY_BASE_SECONDS || "30",
+      10
+    ),
+    timeoutMs: parseInt(
+      process.env.OUTBOUND_WEBHOOKS_TIMEOUT_MS || "10000",
+      10
+    ),
+  },
+  keyRotation: {
+    enabled: process.env.KEY_ROTATION_ENABLED !== "false",
+    intervalSeconds: parseInt(
+      process.env.KEY_ROTATION_INTERVAL_SECONDS || "300",
+      10
+    ),
+    graceHours: parseInt(process.env.KEY_ROTATION_GRACE_HOURS || "24", 10),
+    maxGraceHours: parseInt(
+      process.env.KEY_ROTATION_MAX_GRACE_HOURS || "720",
+      10
+    ),
+    warningDays: (process.env.KEY_EXPIRY_WARNING_DAYS || "7,1")
+      .split(",")
+      .map((days) => parseInt(days.trim(), 10))
+      .filter((days) => days > 0),
+  },
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== "false",
+    store: process.env.RATE_LIMIT_STORE || "memory",
+    windowSeconds: parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || "60", 10),
+    defaultLimit: parseLimit(process.env.RATE_LIMIT_DEFAULT, 60),
+    ipLimit: parseLimit(process.env.RATE_LIMIT_IP, 600),
+    permissions: {
+      read: parseLimit(process.env.RATE_LIMIT_READ, 300),
+      deposit: parseLimit(process.env.RATE_LIMIT_DEPOSIT, 30),
+      transfer: parseLimit(process.env.RATE_LIMIT_TRANSFER, 30),
+      withdraw: parseLimit(process.env.RATE_LIMIT_WITHDRAW, 10),
+    },
+    routes: parseRouteLimits(
+      process.env.RATE_LIMIT_ROUTES ||
+        "POST /wallet/deposit=10,POST /wallet/withdraw=5"
+    ),
+  },
 };
 
 const validateConfig = () => {
@@ -34,6 +34,30 @@ const options: swaggerJsdoc.Options = {
           description: "API key for service-to-service access",
         },
       },
+      parameters: {
+        IdempotencyKey: {
+          in: "header",
+          name: "Idempotency-Key",
+          required: false,
+          schema: {
+            type: "string",
+            maxLength: 255,
+          },
+          description:
+            "Unique key for safely retrying the request. The first response is replayed for retries with the same key and body for 24 hours.",
+        },
+        Currency: {
+          in: "query",
+          name: "currency",
+          required: false,
+          schema: {
+            type: "string",
+            enum: ["NGN", "GHS", "KES", "ZAR", "USD"],
+            default: "NGN",
+          },
+          description: "Wallet currency",
+        },
+      },
       schemas: {
         Error: {
           type: "object",
@@ -81,15 +105,213 @@ const options: swaggerJsdoc.Options = {
         ApiKey: {
           type: "object",
           properties: {
+            id: {
+              type: "string",
+              description:
+                "Key ID, used to manage the key without the full key",
+            },
             api_key: {
               type: "string",
-              description: "Generated API key (format: sk_live_xxxxx)",
+              description:
+                "Generated API key (format: sk_live_xxxxx, or sk_test_xxxxx for test mode)",
+            },
+            mode: {
+              type: "string",
+              enum: ["live", "test"],
             },
             expires_at: {
               type: "string",
               format: "date-time",
               description: "API key expiration timestamp",
             },
+            limits: {
+              $ref: "#/components/schemas/KeyLimits",
+            },
+            allowed_ips: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "IPs or CIDR ranges the key may be used from",
+            },
+            signing_secret: {
+              type: "string",
+              description:
+                "Secret for signing requests (format: ssk_xxxxx). Only returned when signed requests are turned on.",
+            },
+          },
+        },
+        ApiKeyInfo: {
+          type: "object",
+          description: "An API key as listed; never includes the full key",
+          properties: {
+            id: {
+              type: "string",
+            },
+            name: {
+              type: "string",
+              example: "payment-processor",
+            },
+            mode: {
+              type: "string",
+              enum: ["live", "test"],
+              description: "Test keys only see the sandbox ledger",
+            },
+            prefix: {
+              type: "string",
+              example: "sk_live_a1b2...",
+              description:
+                "Start of the key, to tell keys apart. Absent for keys created before prefixes were stored.",
+            },
+            permissions: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: ["deposit", "transfer", "withdraw", "read"],
+              },
+            },
+            status: {
+              type: "string",
+              enum: ["active", "expired", "revoked"],
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+            },
+            expires_at: {
+              type: "string",
+              format: "date-time",
+            },
+            last_used_at: {
+              type: "string",
+              format: "date-time",
+              description: "Last authenticated request made with the key",
+            },
+            last_used_ip: {
+              type: "string",
+            },
+            rotated_from: {
+              type: "string",
+              description: "ID of the key this one replaced",
+            },
+            rotated_to: {
+              type: "string",
+              description: "ID of the key that replaced this one",
+            },
+            grace_ends_at: {
+              type: "string",
+              format: "date-time",
+              description:
+                "Set once the key is rotated; it is revoked at this time",
+            },
+          },
+        },
+        SandboxDeposit: {
+          type: "object",
+          properties: {
+            reference: {
+              type: "string",
+            },
+            amount: {
+              type: "integer",
+              example: 500000,
+            },
+            currency: {
+              type: "string",
+              example: "NGN",
+            },
+            status: {
+              type: "string",
+              enum: ["pending", "success", "failed"],
+            },
+            paid_at: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        KeyUsage: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+            },
+            name: {
+              type: "string",
+            },
+            total: {
+              type: "integer",
+              description: "Requests over the whole period",
+            },
+            days: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  date: {
+                    type: "string",
+                    format: "date",
+                    example: "2024-03-01",
+                  },
+                  count: {
+                    type: "integer",
+                    example: 42,
+                  },
+                },
+              },
+            },
+          },
+        },
+        KeyLimits: {
+          type: "object",
+          description:
+            "Optional spending limits for transfers and withdrawals made with the key. Amounts are in minor units of currency.",
+          properties: {
+            currency: {
+              type: "string",
+              enum: ["NGN", "GHS", "KES", "ZAR", "USD"],
+              default: "NGN",
+              description: "The only currency the key may move",
+            },
+            max_per_transaction: {
+              type: "integer",
+              example: 5000000,
+            },
+            daily_limit: {
+              type: "integer",
+              description: "Cap per UTC day",
+              example: 20000000,
+            },
+            monthly_limit: {
+              type: "integer",
+              description: "Cap per UTC calendar month",
+              example: 200000000,
+            },
+            allowed_recipients: {
+              type: "array",
+              items: {
+                type: "string",
+              },
+              description: "Wallet numbers transfers may be sent to",
+            },
+          },
+        },
+        Wallet: {
+          type: "object",
+          properties: {
+            wallet_number: {
+              type: "string",
+              description: "13-digit wallet number",
+            },
+            currency: {
+              type: "string",
+              enum: ["NGN", "GHS", "KES", "ZAR", "USD"],
+              description: "Currency the wallet holds",
+            },
+            balance: {
+              type: "number",
+              description: "Balance in the currency's minor unit",
+            },
           },
         },
         Transaction: {
@@ -101,16 +323,29 @@ const options: swaggerJsdoc.Options = {
             },
             amount: {
               type: "number",
-              description: "Transaction amount in kobo",
+              description: "Transaction amount in the currency's minor unit",
+            },
+            currency: {
+              type: "string",
+              enum: ["NGN", "GHS", "KES", "ZAR", "USD"],
+              description: "Transaction currency",
             },
             type: {
               type: "string",
-              enum: ["deposit", "transfer"],
+              enum: [
+                "deposit",
+                "transfer",
+                "refund",
+                "dispute",
+                "withdrawal",
+                "conversion",
+                "opening_balance",
+              ],
               description: "Transaction type",
             },
             status: {
               type: "string",
-              enum: ["pending", "success", "failed"],
+              enum: ["pending", "success", "failed", "reversed"],
               description: "Transaction status",
             },
             userId: {
@@ -125,6 +360,15 @@ const options: swaggerJsdoc.Options = {
               type: "string",
               description: "Receiver ID (for transfers)",
             },
+            relatedReference: {
+              type: "string",
+              description:
+                "Original deposit reference (for refunds and disputes)",
+            },
+            scheduledTransferId: {
+              type: "string",
+              description: "Schedule that made the transfer, if any",
+            },
             paidAt: {
               type: "string",
               format: "date-time",
@@ -142,6 +386,629 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        TransactionHistoryItem: {
+          type: "object",
+          properties: {
+            reference: {
+              type: "string",
+              description: "Unique transaction reference",
+            },
+            type: {
+              type: "string",
+              enum: [
+                "deposit",
+                "transfer",
+                "refund",
+                "dispute",
+                "withdrawal",
+                "conversion",
+                "opening_balance",
+              ],
+              description: "Transaction type",
+            },
+            amount: {
+              type: "number",
+              description: "Transaction amount in the currency's minor unit",
+            },
+            currency: {
+              type: "string",
+              enum: ["NGN", "GHS", "KES", "ZAR", "USD"],
+              description: "Transaction currency",
+            },
+            status: {
+              type: "string",
+              enum: ["pending", "success", "failed", "reversed"],
+              description: "Transaction status",
+            },
+            direction: {
+              type: "string",
+              enum: ["in", "out"],
+              description: "Whether money came into or left the wallet",
+            },
+            counterparty_wallet_number: {
+              type: "string",
+              description: "Other wallet (for transfers)",
+            },
+            scheduled_transfer_id: {
+              type: "string",
+              description: "Schedule that made the transfer, if any",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+              description: "Transaction creation timestamp",
+            },
+            paidAt: {
+              type: "string",
+              format: "date-time",
+              description: "Payment completion timestamp",
+            },
+          },
+        },
+        DepositReconciliationRun: {
+          type: "object",
+          properties: {
+            started_at: {
+              type: "string",
+              format: "date-time",
+            },
+            finished_at: {
+              type: "string",
+              format: "date-time",
+            },
+            checked: {
+              type: "number",
+              description: "Stale pending deposits verified with Paystack",
+            },
+            credited: {
+              type: "number",
+              description: "Paid deposits credited to the wallet",
+            },
+            failed: {
+              type: "number",
+              description: "Deposits failed on Paystack or abandoned",
+            },
+            pending: {
+              type: "number",
+              description: "Deposits still unpaid but within the cutoff",
+            },
+            skipped: {
+              type: "number",
+              description: "Deposits settled by the webhook meanwhile",
+            },
+            errors: {
+              type: "number",
+              description: "Deposits that could not be verified",
+            },
+          },
+        },
+        WebhookEndpoint: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+            },
+            url: {
+              type: "string",
+              example: "https://example.com/hooks/wallet",
+            },
+            events: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: [
+                  "deposit.succeeded",
+                  "transfer.received",
+                  "transfer.sent",
+                  "key.expiring",
+                ],
+              },
+            },
+            description: {
+              type: "string",
+            },
+            active: {
+              type: "boolean",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        WebhookDelivery: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+            },
+            endpoint_id: {
+              type: "string",
+            },
+            event_id: {
+              type: "string",
+              example: "transfer.received:PS_1733140800000_ABC123",
+            },
+            event: {
+              type: "string",
+              example: "transfer.received",
+            },
+            status: {
+              type: "string",
+              enum: ["pending", "delivered", "failed"],
+            },
+            attempts: {
+              type: "number",
+            },
+            next_attempt_at: {
+              type: "string",
+              format: "date-time",
+              description: "When the next automatic retry is due",
+            },
+            last_attempt_at: {
+              type: "string",
+              format: "date-time",
+            },
+            response_status: {
+              type: "number",
+              description: "HTTP status the endpoint answered with",
+            },
+            error: {
+              type: "string",
+            },
+            delivered_at: {
+              type: "string",
+              format: "date-time",
+            },
+            payload: {
+              type: "object",
+              description: "Event body exactly as sent",
+              properties: {
+                id: { type: "string" },
+                event: { type: "string" },
+                created_at: { type: "string", format: "date-time" },
+                data: { type: "object" },
+              },
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        ReconciliationReport: {
+          type: "object",
+          properties: {
+            date: {
+              type: "string",
+              format: "date",
+              example: "2026-10-18",
+            },
+            source: {
+              type: "string",
+              example: "paystack",
+            },
+            status: {
+              type: "string",
+              enum: ["balanced", "discrepancies"],
+            },
+            open_discrepancies: {
+              type: "number",
+              description: "Discrepancies not yet marked resolved",
+            },
+            currencies: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  currency: { type: "string", example: "NGN" },
+                  deposit_count: { type: "number" },
+                  deposit_total: {
+                    type: "number",
+                    description: "Successful deposits paid that day",
+                  },
+                  paystack_count: { type: "number" },
+                  paystack_total: {
+                    type: "number",
+                    description: "Payments Paystack reports for that day",
+                  },
+                  wallet_balance_total: {
+                    type: "number",
+                    description: "Sum of all wallet balances",
+                  },
+                  expected_wallet_total: {
+                    type: "number",
+                    description:
+                      "Net deposits less withdrawals according to the ledger",
+                  },
+                },
+              },
+            },
+            discrepancies: {
+              type: "array",
+              items: {
+                $ref: "#/components/schemas/Discrepancy",
+              },
+            },
+            generated_at: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        Discrepancy: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+            },
+            type: {
+              type: "string",
+              enum: [
+                "missing_in_ledger",
+                "missing_at_paystack",
+                "duplicate",
+                "amount_mismatch",
+                "balance_mismatch",
+              ],
+            },
+            reference: {
+              type: "string",
+            },
+            currency: {
+              type: "string",
+            },
+            expected: {
+              type: "number",
+              description: "Paystack's amount, or the ledger's total",
+            },
+            actual: {
+              type: "number",
+              description: "Our amount, or the sum of wallet balances",
+            },
+            detail: {
+              type: "string",
+            },
+            resolved: {
+              type: "boolean",
+            },
+            resolved_at: {
+              type: "string",
+              format: "date-time",
+            },
+            resolved_by: {
+              type: "string",
+              description: "Admin user ID",
+            },
+            resolution_note: {
+              type: "string",
+            },
+          },
+        },
+        VirtualAccount: {
+          type: "object",
+          properties: {
+            account_number: {
+              type: "string",
+              description: "Bank account number to transfer to",
+              example: "9930000123",
+            },
+            account_name: {
+              type: "string",
+              example: "PAYSTACK/John Doe",
+            },
+            bank_name: {
+              type: "string",
+              example: "Wema Bank",
+            },
+            bank_slug: {
+              type: "string",
+              example: "wema-bank",
+            },
+            wallet_number: {
+              type: "string",
+              description: "Wallet credited by transfers into the account",
+            },
+            currency: {
+              type: "string",
+              example: "NGN",
+            },
+            active: {
+              type: "boolean",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        Card: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "Card ID (pass as card_id to POST /wallet/deposit)",
+            },
+            brand: {
+              type: "string",
+              example: "visa",
+            },
+            card_type: {
+              type: "string",
+              example: "visa",
+            },
+            last4: {
+              type: "string",
+              example: "4081",
+            },
+            exp_month: {
+              type: "string",
+              example: "12",
+            },
+            exp_year: {
+              type: "string",
+              example: "2030",
+            },
+            bank: {
+              type: "string",
+              description: "Issuing bank",
+            },
+            reusable: {
+              type: "boolean",
+              description: "Whether Paystack allows charging the card again",
+            },
+            last_used_at: {
+              type: "string",
+              format: "date-time",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        ScheduledTransfer: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "Scheduled transfer ID",
+            },
+            wallet_number: {
+              type: "string",
+              description: "Recipient's wallet number",
+            },
+            amount: {
+              type: "number",
+              description: "Amount per run in the currency's minor unit",
+            },
+            currency: {
+              type: "string",
+              enum: ["NGN", "GHS", "KES", "ZAR", "USD"],
+            },
+            frequency: {
+              type: "string",
+              enum: ["once", "daily", "weekly", "monthly"],
+            },
+            start_at: {
+              type: "string",
+              format: "date-time",
+              description: "First (or only) run",
+            },
+            end_at: {
+              type: "string",
+              format: "date-time",
+              description: "No runs after this time",
+            },
+            max_occurrences: {
+              type: "number",
+              description: "Stop after this many runs",
+            },
+            status: {
+              type: "string",
+              enum: ["active", "paused", "completed", "failed", "cancelled"],
+            },
+            next_run_at: {
+              type: "string",
+              format: "date-time",
+              description: "When the next run is due (active schedules only)",
+            },
+            success_count: {
+              type: "number",
+              description: "Runs that transferred money",
+            },
+            failure_count: {
+              type: "number",
+              description: "Failed attempts, including retries",
+            },
+            last_run_at: {
+              type: "string",
+              format: "date-time",
+            },
+            last_error: {
+              type: "string",
+              description: "Why the last attempt failed, if it did",
+            },
+            last_reference: {
+              type: "string",
+              description: "Transaction reference of the last successful run",
+            },
+            note: {
+              type: "string",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        LedgerEntry: {
+          type: "object",
+          properties: {
+            reference: {
+              type: "string",
+              description: "Reference of the transaction that posted the entry",
+            },
+            direction: {
+              type: "string",
+              enum: ["debit", "credit"],
+              description: "Debit (money out) or credit (money in)",
+            },
+            amount: {
+              type: "number",
+              description: "Entry amount in the currency's minor unit",
+            },
+            createdAt: {
+              type: "string",
+              format: "date-time",
+              description: "Entry creation timestamp",
+            },
+          },
+        },
+        FxQuote: {
+          type: "object",
+          properties: {
+            quote_id: {
+              type: "string",
+              description: "Quote ID to pass to /wallet/fx/convert",
+            },
+            reference: {
+              type: "string",
+              description: "Reference shared by both conversion legs",
+            },
+            from_currency: {
+              type: "string",
+              enum: ["NGN", "GHS", "KES", "ZAR", "USD"],
+            },
+            to_currency: {
+              type: "string",
+              enum: ["NGN", "GHS", "KES", "ZAR", "USD"],
+            },
+            from_amount: {
+              type: "number",
+              description: "Amount debited in minor units of from_currency",
+            },
+            to_amount: {
+              type: "number",
+              description: "Amount credited in minor units of to_currency",
+            },
+            mid_rate: {
+              type: "number",
+              description: "Mid-market rate (to_currency per from_currency)",
+            },
+            rate: {
+              type: "number",
+              description: "Rate applied after the spread",
+            },
+            spread_bps: {
+              type: "number",
+              description: "Spread in basis points",
+            },
+            status: {
+              type: "string",
+              enum: ["open", "executed"],
+            },
+            expires_at: {
+              type: "string",
+              format: "date-time",
+            },
+          },
+        },
+        Beneficiary: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "Beneficiary ID",
+            },
+            nickname: {
+              type: "string",
+              description: "Name the user saved the beneficiary under",
+            },
+            type: {
+              type: "string",
+              enum: ["wallet", "bank"],
+              description: "Internal wallet or bank account",
+            },
+            wallet_number: {
+              type: "string",
+              description: "Wallet number (wallet beneficiaries)",
+            },
+            account_number: {
+              type: "string",
+              description: "Bank account number (bank beneficiaries)",
+            },
+            bank_code: {
+              type: "string",
+              description: "Paystack bank code (bank beneficiaries)",
+            },
+            bank_name: {
+              type: "string",
+              description: "Bank name (bank beneficiaries)",
+            },
+            account_name: {
+              type: "string",
+              description: "Resolved account holder or wallet owner name",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+              description: "When the beneficiary was saved",
+            },
+          },
+        },
+        WebhookEvent: {
+          type: "object",
+          properties: {
+            id: {
+              type: "string",
+              description: "Webhook event ID",
+            },
+            event: {
+              type: "string",
+              description: "Paystack event type",
+              example: "charge.success",
+            },
+            reference: {
+              type: "string",
+              description: "Transaction reference from the payload",
+            },
+            signature_valid: {
+              type: "boolean",
+              description: "Whether the Paystack signature matched",
+            },
+            status: {
+              type: "string",
+              enum: [
+                "received",
+                "processed",
+                "duplicate",
+                "ignored",
+                "failed",
+                "rejected",
+              ],
+              description: "Processing outcome",
+            },
+            error: {
+              type: "string",
+              description: "Last processing error, if any",
+            },
+            attempts: {
+              type: "number",
+              description: "Number of processing attempts",
+            },
+            processed_at: {
+              type: "string",
+              format: "date-time",
+              description: "When the event was last processed",
+            },
+            created_at: {
+              type: "string",
+              format: "date-time",
+              description: "When the event was received",
+            },
+          },
+        },
       },
     },
     tags: [
@@ -158,6 +1025,37 @@ const options: swaggerJsdoc.Options = {
         description:
           "Wallet operations including deposits, transfers, and balance",
       },
+      {
+        name: "Beneficiaries",
+        description: "Saved transfer destinations and bank account lookup",
+      },
+      {
+        name: "FX",
+        description: "Currency conversion between a user's wallets",
+      },
+      {
+        name: "Cards",
+        description:
+          "Saved Paystack card authorizations for one-click deposits",
+      },
+      {
+        name: "Scheduled Transfers",
+        description: "One-off and recurring transfers executed on a schedule",
+      },
+      {
+        name: "Webhooks",
+        description:
+          "Signed event notifications sent to endpoints you register",
+      },
+      {
+        name: "Sandbox",
+        description:
+          "Fake payment provider behind deposits made with test-mode keys",
+      },
+      {
+        name: "Admin",
+        description: "Operational endpoints restricted to admin users",
+      },
     ],
   },
   apis: ["./src/routes/*.ts"],
@@ -7,6 +7,21 @@ import { swaggerSpec } from "./config/swagger";
 import authRoutes from "./routes/auth.routes";
 import paymentRoutes from "./routes/wallet.routes";
 import keyRoutes from "./routes/key.routes";
+import adminRoutes from "./routes/admin.routes";
+import beneficiaryRoutes from "./routes/beneficiary.routes";
+import fxRoutes from "./routes/fx.routes";
+import cardRoutes from "./routes/card.routes";
+import scheduledTransferRoutes from "./routes/scheduledTransfer.routes";
+import webhookEndpointRoutes from "./routes/webhookEndpoint.routes";
+import sandboxRoutes from "./routes/sandbox.routes";
+import { startScheduledTransferWorker } from "./workers/scheduledTransfer.worker";
+import { startDepositReconciliationWorker } from "./workers/depositReconciliation.worker";
+import { startLedgerReconciliationWorker } from "./workers/ledgerReconciliation.worker";
+import { startWebhookDeliveryWorker } from "./workers/webhookDelivery.worker";
+import { startKeyRotationWorker } from "./workers/keyRotation.worker";
+import { runMigrations } from "./migrations";
+import { captureRawBody } from "./middleware/rawBody.middleware";
+import { ipRateLimit } from "./middleware/rateLimit.middleware";
 import {
   errorHandler,
   notFoundHandler,
@@ -15,11 +30,17 @@ import {
 
 const app: Application = express();
 
+// req.ip is the client behind this many proxies (API key IP allowlists)
+app.set("trust proxy", config.trustProxy);
+
 // Middleware
 app.use(cors());
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+app.use(express.json({ verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
 app.use(requestLogger);
+// Paystack sends its webhooks from a few addresses, so they are left out;
+// that route limits deliveries with a bad signature itself
+app.use(ipRateLimit(["POST /wallet/paystack/webhook"]));
 
 // Health check endpoint
 app.get("/", (_req: Request, res: Response) => {
@@ -36,15 +57,59 @@ app.get("/", (_req: Request, res: Response) => {
       wallet: {
         deposit: "POST /wallet/deposit",
         webhook: "POST /wallet/paystack/webhook",
+        callback: "GET /wallet/paystack/callback",
         status: "GET /wallet/deposit/:reference/status",
+        wallets: "GET|POST /wallet/wallets",
+        virtualAccount: "GET|POST /wallet/virtual-account",
         balance: "GET /wallet/balance",
+        ledger: "GET /wallet/ledger",
         transfer: "POST /wallet/transfer",
+        withdraw: "POST /wallet/withdraw",
+        withdrawStatus: "GET /wallet/withdraw/:reference/status",
+        banks: "GET /wallet/banks",
+        resolveAccount: "GET /wallet/banks/resolve",
+        beneficiaries: "GET|POST /wallet/beneficiaries",
+        beneficiary: "GET|PATCH|DELETE /wallet/beneficiaries/:id",
         transactions: "GET /wallet/transactions",
+        statement: "GET /wallet/statement",
+        fxQuote: "POST /wallet/fx/quote",
+        fxConvert: "POST /wallet/fx/convert",
+        cards: "GET /wallet/cards",
+        card: "DELETE /wallet/cards/:id",
+        scheduledTransfers: "GET|POST /wallet/scheduled-transfers",
+        scheduledTransfer: "GET|PATCH|DELETE /wallet/scheduled-transfers/:id",
+        pauseScheduledTransfer: "POST /wallet/scheduled-transfers/:id/pause",
+        resumeScheduledTransfer: "POST /wallet/scheduled-transfers/:id/resume",
       },
       keys: {
+        list: "GET /keys",
+        usage: "GET /keys/:id/usage",
         create: "POST /keys/create",
         rollover: "POST /keys/rollover",
         revoke: "POST /keys/revoke",
+        revokeById: "POST /keys/:id/revoke",
+        rolloverById: "POST /keys/:id/rollover",
+        rotate: "POST /keys/:id/rotate",
+      },
+      sandbox: {
+        checkout: "GET /sandbox/checkout/:reference",
+        simulateDeposit: "POST /sandbox/deposits/:reference/simulate",
+      },
+      webhooks: {
+        endpoints: "GET|POST /webhooks/endpoints",
+        endpoint: "GET|PATCH|DELETE /webhooks/endpoints/:id",
+        deliveries: "GET /webhooks/endpoints/:id/deliveries",
+        redeliver: "POST /webhooks/deliveries/:id/redeliver",
+      },
+      admin: {
+        webhooks: "GET /admin/webhooks",
+        replayWebhook: "POST /admin/webhooks/:id/replay",
+        depositReconciliation: "GET /admin/deposits/reconciliation",
+        reconciliationReport: "GET /admin/reconciliation/:date",
+        regenerateReconciliationReport: "POST /admin/reconciliation/:date",
+        resolveDiscrepancy:
+          "POST /admin/reconciliation/:date/discrepancies/:id/resolve",
+        finalizeWithdrawal: "POST /admin/withdrawals/:reference/finalize",
       },
     },
   });
@@ -62,8 +127,15 @@ app.use(
 
 // Routes
 app.use("/auth", authRoutes);
+app.use("/wallet/beneficiaries", beneficiaryRoutes);
+app.use("/wallet/fx", fxRoutes);
+app.use("/wallet/cards", cardRoutes);
+app.use("/wallet/scheduled-transfers", scheduledTransferRoutes);
 app.use("/wallet", paymentRoutes);
 app.use("/keys", keyRoutes);
+app.use("/webhooks", webhookEndpointRoutes);
+app.use("/sandbox", sandboxRoutes);
+app.use("/admin", adminRoutes);
 
 // Error handlers
 app.use(notFoundHandler);
@@ -75,6 +147,16 @@ const startServer = async () => {
     // Connect to database
     await connectDatabase();
 
+    // Bring data from older versions up to date before anything uses it
+    await runMigrations();
+
+    // Background jobs: scheduled transfers, reconciliation, webhook retries
+    startScheduledTransferWorker();
+    startDepositReconciliationWorker();
+    startLedgerReconciliationWorker();
+    startWebhookDeliveryWorker();
+    startKeyRotationWorker();
+
     // Start listening
     app.listen(config.port, () => {
       console.log(`Server running on port ${config.port}`);
@@ -4,6 +4,10 @@ import crypto from "crypto";
 import config from "../config";
 import { Key } from "../models/Key";
 import { User } from "../models/User";
+import keyService from "../services/key.service";
+import keySecurityService from "../services/keySecurity.service";
+import sandboxService from "../services/sandbox.service";
+import { RawBodyRequest } from "./rawBody.middleware";
 
 export interface AuthRequest extends Request {
   user?: {
@@ -12,6 +16,7 @@ export interface AuthRequest extends Request {
   };
   authType?: "jwt" | "api_key";
   apiKey?: any;
+  idempotencyId?: string; // Idempotency record the request runs under
 }
 
 export const authenticate = async (
@@ -44,18 +49,58 @@ export const authenticate = async (
       // Find in database
       const key = await Key.findOne({ keyHash });
 
-      // Validate
-      if (!key || key.isRevoked || key.expiresAt < new Date()) {
+      // Validate. Rotated keys stop working when their grace period ends,
+      // even before the worker revokes them.
+      const now = new Date();
+      if (
+        !key ||
+        key.isRevoked ||
+        key.expiresAt < now ||
+        (key.graceEndsAt && key.graceEndsAt <= now)
+      ) {
         return res.status(401).json({ error: "Invalid or expired API key" });
       }
 
+      if (!keySecurityService.isIpAllowed(key, req.ip)) {
+        return res.status(403).json({
+          error: "ip_not_allowed",
+          message: "This API key cannot be used from this IP address",
+        });
+      }
+
+      try {
+        await keySecurityService.verifyRequest(key, {
+          method: req.method,
+          path: req.originalUrl,
+          body: (req as RawBodyRequest).rawBody || "",
+          timestamp: req.headers["x-timestamp"] as string | undefined,
+          nonce: req.headers["x-nonce"] as string | undefined,
+          signature: req.headers["x-signature"] as string | undefined,
+        });
+      } catch (error: any) {
+        return res.status(401).json({
+          error: "invalid_signature",
+          message: error.message,
+        });
+      }
+
       // Get user email with ID
       const user = await User.findOne({ _id: key.userId });
 
-      // Attach user and key info
-      req.user = { id: key.userId, email: user ? user.email : "" };
+      // Attach user and key info. Test keys act for the user's sandbox owner.
+      req.user = {
+        id: sandboxService.ownerId(key.userId, key.mode),
+        email: user ? user.email : "",
+      };
       req.authType = "api_key";
       req.apiKey = key;
+
+      // Not awaited: usage tracking must not hold up the request
+      keyService
+        .recordUsage(key, req.ip)
+        .catch((error) =>
+          console.error(`Failed to record usage of key ${key.id}:`, error)
+        );
       return next();
     }
 
@@ -89,3 +134,70 @@ export const requirePermission = (permission: string) => {
     });
   };
 };
+
+export const requireJwt = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  // Keys must not be able to mint or loosen keys for themselves
+  if (req.authType === "jwt") {
+    return next();
+  }
+
+  return res.status(403).json({
+    error: "forbidden",
+    message: "This action requires a signed-in user; API keys cannot be used",
+  });
+};
+
+export const requireLiveMode = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  // Endpoints that call Paystack or move money outside the sandbox ledger
+  if (req.apiKey?.mode !== "test") {
+    return next();
+  }
+
+  return res.status(403).json({
+    error: "live_mode_only",
+    message: "This endpoint is not available with test-mode API keys",
+  });
+};
+
+export const requireTestMode = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.apiKey?.mode === "test") {
+    return next();
+  }
+
+  return res.status(403).json({
+    error: "test_mode_only",
+    message: "This endpoint requires a test-mode API key (sk_test_)",
+  });
+};
+
+export const requireAdmin = (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  // Admin endpoints are only available to signed-in users, never API keys
+  if (
+    req.authType === "jwt" &&
+    req.user &&
+    config.adminEmails.includes(req.user.email.toLowerCase())
+  ) {
+    return next();
+  }
+
+  return res.status(403).json({
+    error: "forbidden",
+    message: "This action requires admin access",
+  });
+};
@@ -0,0 +1,152 @@
+import { Response, NextFunction } from "express";
+import crypto from "crypto";
+import { IdempotencyKey } from "../models/IdempotencyKey";
+import { AuthRequest } from "./auth.middleware";
+
+// A running request renews its lease every HEARTBEAT_MS. A "processing"
+// record not renewed for PROCESSING_LEASE_MS belongs to a process that died,
+// and a retry may take its key over.
+const PROCESSING_LEASE_MS = 60 * 1000;
+const HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * Reference for the payment a request makes, derived from its idempotency
+ * record. A retry that takes an abandoned record over reuses it, so the
+ * payment is refused as a duplicate instead of being made twice.
+ */
+export const idempotentReference = (req: AuthRequest, prefix: string) =>
+  req.idempotencyId ? `${prefix}_${req.idempotencyId}` : undefined;
+
+/**
+ * Replays the first response for a repeated Idempotency-Key header.
+ * Keys are scoped per (user, key, route) and must be used after `authenticate`.
+ * A key left "processing" by a request that stopped renewing its lease is
+ * taken over by the next retry.
+ */
+export const idempotency = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  const key = req.headers["idempotency-key"] as string;
+
+  // Header is optional; requests without it are processed normally
+  if (!key) {
+    return next();
+  }
+
+  if (key.length > 255) {
+    return res.status(400).json({
+      error: "invalid_request",
+      message: "Idempotency-Key must be at most 255 characters",
+    });
+  }
+
+  try {
+    const userId = req.user!.id;
+    const route = `${req.method} ${req.baseUrl}${req.path}`;
+    const requestHash = crypto
+      .createHash("sha256")
+      .update(JSON.stringify(req.body ?? {}))
+      .digest("hex");
+
+    const leaseId = crypto.randomUUID();
+
+    let record;
+    try {
+      record = await IdempotencyKey.create({
+        userId,
+        key,
+        route,
+        requestHash,
+        status: "processing",
+        leaseId,
+      });
+    } catch (error: any) {
+      if (error.code !== 11000) {
+        throw error;
+      }
+
+      const existing = await IdempotencyKey.findOne({ userId, key, route });
+      if (!existing) {
+        throw error;
+      }
+
+      if (existing.requestHash !== requestHash) {
+        return res.status(409).json({
+          error: "idempotency_conflict",
+          message:
+            "Idempotency-Key has already been used with a different request body",
+        });
+      }
+
+      if (existing.status === "completed") {
+        res.setHeader("Idempotent-Replayed", "true");
+        return res.status(existing.responseStatus!).json(existing.responseBody);
+      }
+
+      // Only one retry can take over an abandoned record; the new lease
+      // refreshes updatedAt so the others still see it in progress
+      const abandoned = await IdempotencyKey.findOneAndUpdate(
+        {
+          _id: existing._id,
+          status: "processing",
+          updatedAt: { $lte: new Date(Date.now() - PROCESSING_LEASE_MS) },
+        },
+        { $set: { leaseId } },
+        { new: true }
+      );
+      if (!abandoned) {
+        return res.status(409).json({
+          error: "request_in_progress",
+          message: "A request with this Idempotency-Key is still in progress",
+        });
+      }
+      record = abandoned;
+    }
+
+    // Renew the lease until the response is sent. Updates are made under the
+    // lease, so a request whose record was taken over cannot overwrite it.
+    const held = { _id: record._id, leaseId };
+    const heartbeat = setInterval(() => {
+      IdempotencyKey.updateOne(held, { $set: { leaseId } }).catch((error) =>
+        console.error("Failed to renew idempotency lease:", error)
+      );
+    }, HEARTBEAT_MS);
+    heartbeat.unref();
+    res.on("finish", () => clearInterval(heartbeat));
+    req.idempotencyId = record.id;
+
+    // Store the response before sending it so retries can replay it verbatim
+    const originalJson = res.json.bind(res);
+    res.json = (body?: any) => {
+      clearInterval(heartbeat);
+      let persist: Promise<unknown>;
+      if (res.statusCode >= 500) {
+        // Let the client retry requests that failed on our side
+        persist = IdempotencyKey.deleteOne(held).exec();
+      } else {
+        persist = IdempotencyKey.updateOne(held, {
+          status: "completed",
+          responseStatus: res.statusCode,
+          responseBody: body,
+        }).exec();
+      }
+
+      persist
+        .catch((error) =>
+          console.error("Failed to store idempotent response:", error)
+        )
+        .finally(() => originalJson(body));
+      return res;
+    };
+
+    return next();
+  } catch (error) {
+    console.error("Idempotency check failed:", error);
+    return res.status(500).json({
+      error: "internal_error",
+      message: "An unexpected error occurred",
+    });
+  }
+};
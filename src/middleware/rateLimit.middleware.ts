@@ -0,0 +1,112 @@
+import { Response, NextFunction } from "express";
+import config from "../config";
+import { PermissionType } from "../models/Key";
+import rateLimitService, {
+  RateLimitBudget,
+} from "../services/rateLimit.service";
+import { AuthRequest } from "./auth.middleware";
+
+/**
+ * Who a request is counted against: the API key it was made with, else the
+ * signed-in user, else the client IP
+ */
+const callerOf = (req: AuthRequest) => {
+  if (req.apiKey) {
+    return `key:${req.apiKey.id}`;
+  }
+  if (req.user) {
+    return `user:${req.user.id}`;
+  }
+  return `ip:${req.ip}`;
+};
+
+/**
+ * Count the request against `budgets` and answer 429 once one is used up.
+ * The RateLimit headers show the tightest budget, and are only replaced by a
+ * later limiter on the same request when its budget is tighter still.
+ */
+const limit = async (
+  caller: string,
+  budgets: RateLimitBudget[],
+  res: Response,
+  next: NextFunction
+) => {
+  if (!config.rateLimit.enabled) {
+    return next();
+  }
+
+  let result;
+  try {
+    result = await rateLimitService.consume(caller, budgets);
+  } catch (error) {
+    // A store outage should not take the API down with it
+    console.error("Rate limit store error:", error);
+    return next();
+  }
+
+  if (!result) {
+    return next();
+  }
+
+  const { budget, remaining, resetAt, limited } = result;
+  const resetSeconds = Math.max(
+    1,
+    Math.ceil((resetAt.getTime() - Date.now()) / 1000)
+  );
+
+  const shown = res.getHeader("RateLimit-Remaining");
+  if (shown === undefined || remaining < Number(shown)) {
+    res.setHeader("RateLimit-Limit", budget.limit);
+    res.setHeader("RateLimit-Remaining", remaining);
+    res.setHeader("RateLimit-Reset", resetSeconds);
+    res.setHeader(
+      "RateLimit-Policy",
+      `${budget.limit};w=${budget.windowSeconds}`
+    );
+  }
+
+  if (limited) {
+    res.setHeader("Retry-After", resetSeconds);
+    return res.status(429).json({
+      error: "rate_limit_exceeded",
+      message: `Too many requests; try again in ${resetSeconds} seconds`,
+    });
+  }
+
+  return next();
+};
+
+/**
+ * Limits how often a caller can hit a route, using the budget of
+ * `permission` (or the default budget) and any budget configured for the
+ * route. Use after `authenticate` so requests are counted per key or user.
+ * Sets RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset and
+ * RateLimit-Policy for the tightest budget, and answers 429 with
+ * Retry-After once it is used up.
+ */
+export const rateLimit =
+  (permission?: PermissionType) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    const route = `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+    return limit(
+      callerOf(req),
+      rateLimitService.budgetsFor(route, permission),
+      res,
+      next
+    );
+  };
+
+/**
+ * Limits every request by client IP, except on the `exempt` routes (such as
+ * "POST /wallet/paystack/webhook"). Mounted on the app ahead of all routes,
+ * so it runs before `authenticate` and also counts requests with unknown
+ * keys, bad signatures or invalid tokens.
+ */
+export const ipRateLimit =
+  (exempt: string[] = []) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (exempt.includes(`${req.method} ${req.path}`)) {
+      return next();
+    }
+    return limit(`ip:${req.ip}`, rateLimitService.ipBudgets(), res, next);
+  };
@@ -0,0 +1,18 @@
+import { Request } from "express";
+import { IncomingMessage } from "http";
+
+export interface RawBodyRequest extends Request {
+  rawBody?: string;
+}
+
+/**
+ * `verify` hook for express.json() that keeps the exact request body, so
+ * webhook signatures are checked against the bytes that were actually sent.
+ */
+export const captureRawBody = (
+  req: IncomingMessage,
+  _res: unknown,
+  buf: Buffer
+) => {
+  (req as RawBodyRequest).rawBody = buf.toString("utf8");
+};
@@ -0,0 +1,39 @@
+import { Migration } from "../models/Migration";
+import { openingBalances } from "./openingBalances";
+import { walletCurrencies } from "./walletCurrencies";
+
+/**
+ * A one-off change to existing data. Migrations must be safe to run again:
+ * two instances starting together can both run one before either records it.
+ */
+export interface DataMigration {
+  name: string;
+  up(): Promise<void>;
+}
+
+// Applied in this order; append new migrations to the end
+export const MIGRATIONS: DataMigration[] = [walletCurrencies, openingBalances];
+
+/**
+ * Apply the migrations this database has not had yet. Runs at startup,
+ * before the server takes requests or the workers start.
+ */
+export const runMigrations = async () => {
+  const applied = new Set(
+    (await Migration.find().select("name")).map((migration) => migration.name)
+  );
+
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.name)) {
+      continue;
+    }
+
+    console.log(`Running migration ${migration.name}`);
+    await migration.up();
+    await Migration.updateOne(
+      { name: migration.name },
+      { $setOnInsert: { appliedAt: new Date() } },
+      { upsert: true }
+    );
+  }
+};
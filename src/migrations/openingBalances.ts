@@ -0,0 +1,82 @@
+import mongoose from "mongoose";
+import { Transaction } from "../models/Transaction";
+import { IWallet, Wallet } from "../models/Wallet";
+import ledgerService from "../services/ledger.service";
+import sandboxService from "../services/sandbox.service";
+import { DataMigration } from "./index";
+
+/**
+ * Book the part of a wallet's balance its ledger entries do not explain
+ */
+const openWallet = async (wallet: IWallet) => {
+  const reference = `OPENING-${wallet.walletNumber}`;
+
+  try {
+    await mongoose.connection.transaction(async (session) => {
+      // Read the balance and the ledger from the same snapshot, so a
+      // transfer committing meanwhile cannot skew the difference
+      const current = await Wallet.findById(wallet._id).session(session);
+      if (!current) {
+        return;
+      }
+      const ledgerBalance = await ledgerService.getAccountBalance(
+        current.walletNumber,
+        current.currency,
+        session
+      );
+
+      const missing = current.balance - ledgerBalance;
+      if (missing < 0) {
+        console.warn(
+          `Wallet ${current.walletNumber} holds ${missing} less than its ledger; left for reconciliation`
+        );
+      }
+      if (missing <= 0) {
+        return;
+      }
+
+      const [opening] = await Transaction.create(
+        [
+          {
+            reference,
+            amount: missing,
+            currency: current.currency,
+            type: "opening_balance",
+            status: "success",
+            userId: current.userId,
+            createdAt: current.createdAt,
+          },
+        ],
+        { session }
+      );
+      await ledgerService.recordOpeningBalance(
+        opening,
+        current.walletNumber,
+        session
+      );
+    });
+  } catch (error: any) {
+    // Another instance booked this wallet's opening balance first
+    if (error.code !== 11000) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Wallets funded before the ledger existed hold money with no ledger entries
+ * behind it, so their ledger balance, the daily reconciliation report and
+ * their statements all come up short. Book the missing amount as an opening
+ * balance paid in through Paystack, dated when the wallet was opened.
+ */
+export const openingBalances: DataMigration = {
+  name: "opening-balances",
+
+  async up() {
+    // Sandbox wallets came after the ledger and always match it
+    const wallets = Wallet.find(sandboxService.liveOnly()).cursor();
+    for await (const wallet of wallets) {
+      await openWallet(wallet);
+    }
+  },
+};
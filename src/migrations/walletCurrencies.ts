@@ -0,0 +1,39 @@
+import { DEFAULT_CURRENCY } from "../config/currencies";
+import { LedgerEntry } from "../models/LedgerEntry";
+import { Transaction } from "../models/Transaction";
+import { Wallet } from "../models/Wallet";
+import { DataMigration } from "./index";
+
+// MongoDB error codes for a missing index or collection
+const INDEX_NOT_FOUND = 27;
+const NAMESPACE_NOT_FOUND = 26;
+
+/**
+ * Wallets used to be one per user and had no currency. Give records from
+ * before multi-currency support the NGN they were held in, and drop the old
+ * unique index on userId so users can open wallets in other currencies.
+ */
+export const walletCurrencies: DataMigration = {
+  name: "wallet-currencies",
+
+  async up() {
+    const missing = { currency: { $exists: false } };
+    const set = { $set: { currency: DEFAULT_CURRENCY } };
+
+    await Wallet.updateMany(missing, set);
+    await Transaction.updateMany(missing, set);
+    await LedgerEntry.updateMany(missing, set);
+
+    try {
+      await Wallet.collection.dropIndex("userId_1");
+    } catch (error: any) {
+      if (
+        error.code !== INDEX_NOT_FOUND &&
+        error.code !== NAMESPACE_NOT_FOUND
+      ) {
+        throw error;
+      }
+    }
+    await Wallet.createIndexes();
+  },
+};
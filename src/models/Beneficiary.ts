@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type BeneficiaryType = "wallet" | "bank";
+
+export interface IBeneficiary extends Document {
+  userId: string; // Reference to User who saved the beneficiary
+  nickname: string;
+  type: BeneficiaryType;
+  walletNumber?: string; // For internal wallet beneficiaries
+  accountNumber?: string; // For bank beneficiaries
+  bankCode?: string;
+  bankName?: string;
+  accountName: string; // Resolved account or wallet owner name
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const beneficiarySchema = new Schema<IBeneficiary>(
+  {
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    nickname: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: ["wallet", "bank"],
+      required: true,
+    },
+    walletNumber: {
+      type: String,
+    },
+    accountNumber: {
+      type: String,
+    },
+    bankCode: {
+      type: String,
+    },
+    bankName: {
+      type: String,
+    },
+    accountName: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+beneficiarySchema.index({ userId: 1, nickname: 1 }, { unique: true });
+
+export const Beneficiary = mongoose.model<IBeneficiary>(
+  "Beneficiary",
+  beneficiarySchema
+);
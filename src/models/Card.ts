@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface ICard extends Document {
+  userId: string; // Reference to User who owns the card
+  authorizationCode: string; // Paystack authorization used to charge the card
+  signature: string; // Paystack's fingerprint of the card, same across charges
+  email: string; // Customer email the authorization was issued to
+  brand: string; // visa, mastercard, verve...
+  cardType?: string;
+  bin?: string;
+  last4: string;
+  expMonth: string;
+  expYear: string;
+  bank?: string;
+  countryCode?: string;
+  reusable: boolean; // Whether Paystack allows charging it again
+  lastUsedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const cardSchema = new Schema<ICard>(
+  {
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    authorizationCode: {
+      type: String,
+      required: true,
+    },
+    signature: {
+      type: String,
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+    },
+    brand: {
+      type: String,
+      required: true,
+    },
+    cardType: {
+      type: String,
+    },
+    bin: {
+      type: String,
+    },
+    last4: {
+      type: String,
+      required: true,
+    },
+    expMonth: {
+      type: String,
+      required: true,
+    },
+    expYear: {
+      type: String,
+      required: true,
+    },
+    bank: {
+      type: String,
+    },
+    countryCode: {
+      type: String,
+    },
+    reusable: {
+      type: Boolean,
+      default: false,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A card paid with again is updated in place rather than saved twice
+cardSchema.index({ userId: 1, signature: 1 }, { unique: true });
+
+export const Card = mongoose.model<ICard>("Card", cardSchema);
@@ -0,0 +1,93 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { Currency, SUPPORTED_CURRENCIES } from "../config/currencies";
+
+export type FxQuoteStatus = "open" | "executed";
+
+export interface IFxQuote extends Document {
+  reference: string; // Shared by both legs of the conversion
+  userId: string; // Reference to User
+  fromCurrency: Currency;
+  toCurrency: Currency;
+  fromAmount: number; // Minor units of fromCurrency
+  toAmount: number; // Minor units of toCurrency
+  midRate: number; // Major units of toCurrency per major unit of fromCurrency
+  rate: number; // midRate less the spread
+  spreadBps: number;
+  rateSource: string;
+  status: FxQuoteStatus;
+  expiresAt: Date;
+  executedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const fxQuoteSchema = new Schema<IFxQuote>(
+  {
+    reference: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    fromCurrency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      required: true,
+    },
+    toCurrency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      required: true,
+    },
+    fromAmount: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    toAmount: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    midRate: {
+      type: Number,
+      required: true,
+    },
+    rate: {
+      type: Number,
+      required: true,
+    },
+    spreadBps: {
+      type: Number,
+      required: true,
+    },
+    rateSource: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["open", "executed"],
+      default: "open",
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    executedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const FxQuote = mongoose.model<IFxQuote>("FxQuote", fxQuoteSchema);
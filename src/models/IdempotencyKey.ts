@@ -0,0 +1,66 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type IdempotencyStatus = "processing" | "completed";
+
+export interface IIdempotencyKey extends Document {
+  userId: string; // Reference to User
+  key: string; // Client supplied Idempotency-Key header
+  route: string; // e.g. "POST /wallet/transfer"
+  requestHash: string; // SHA256 of the request body
+  status: IdempotencyStatus;
+  leaseId?: string; // Held by the request processing it, renewed while it runs
+  responseStatus?: number;
+  responseBody?: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const idempotencyKeySchema = new Schema<IIdempotencyKey>(
+  {
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    route: {
+      type: String,
+      required: true,
+    },
+    requestHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["processing", "completed"],
+      default: "processing",
+      required: true,
+    },
+    leaseId: {
+      type: String,
+    },
+    responseStatus: {
+      type: Number,
+    },
+    responseBody: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+idempotencyKeySchema.index({ userId: 1, key: 1, route: 1 }, { unique: true });
+
+// Stored responses are only replayed for 24 hours
+idempotencyKeySchema.index({ createdAt: 1 }, { expireAfterSeconds: 86400 });
+
+export const IdempotencyKey = mongoose.model<IIdempotencyKey>(
+  "IdempotencyKey",
+  idempotencyKeySchema
+);
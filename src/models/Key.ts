@@ -1,18 +1,68 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { Currency, SUPPORTED_CURRENCIES } from "../config/currencies";
 
-export type PermissionType = "deposit" | "transfer" | "read";
+export type PermissionType = "deposit" | "transfer" | "withdraw" | "read";
+export type KeyMode = "live" | "test";
+
+/**
+ * Optional spending limits for transfers and withdrawals made with a key.
+ * Amounts are minor units of `currency`.
+ */
+export interface IKeyLimits {
+  currency: Currency; // The only currency the key may move
+  maxPerTransaction?: number;
+  dailyLimit?: number; // Per UTC day
+  monthlyLimit?: number; // Per UTC calendar month
+  allowedRecipients?: string[]; // Wallet numbers transfers may go to
+}
 
 export interface IKey extends Document {
   userId: string; // Reference to User
   keyHash: string; // SHA256/bcrypt hash of the actual key
+  prefix?: string; // First characters of the key, shown masked in listings
   name: string; // User-friendly name
-  permissions: PermissionType[]; // ["deposit", "transfer", "read"]
+  mode: KeyMode; // test keys act on the sandbox ledger (sk_test_ prefix)
+  permissions: PermissionType[]; // ["deposit", "transfer", "withdraw", "read"]
   expiresAt: Date; // When key expires
   isRevoked: boolean; // Manual revocation
+  limits?: IKeyLimits; // No limits when unset
+  allowedIps?: string[]; // IPs / CIDR ranges the key may be used from
+  signingSecret?: string; // When set, every request must be signed with it
+  lastSpentAt?: Date; // Last transfer or withdrawal made with the key
+  lastUsedAt?: Date; // Last authenticated request
+  lastUsedIp?: string;
+  expiryWarningsSent?: number[]; // Warning thresholds (days before expiry) already sent
+  rotatedFromId?: string; // Key this one replaced
+  rotatedToId?: string; // Key that replaced this one
+  graceEndsAt?: Date; // Set on rotation; the key is revoked after this
   createdAt: Date;
   updatedAt: Date;
 }
 
+const keyLimitsSchema = new Schema<IKeyLimits>(
+  {
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      required: true,
+    },
+    maxPerTransaction: {
+      type: Number,
+    },
+    dailyLimit: {
+      type: Number,
+    },
+    monthlyLimit: {
+      type: Number,
+    },
+    allowedRecipients: {
+      type: [String],
+      default: undefined,
+    },
+  },
+  { _id: false }
+);
+
 const keySchema = new Schema<IKey>(
   {
     userId: {
@@ -27,13 +77,22 @@ const keySchema = new Schema<IKey>(
       unique: true,
       index: true,
     },
+    prefix: {
+      type: String,
+    },
     name: {
       type: String,
       required: true,
     },
+    mode: {
+      type: String,
+      enum: ["live", "test"],
+      required: true,
+      default: "live",
+    },
     permissions: {
       type: [String],
-      enum: ["deposit", "transfer", "read"],
+      enum: ["deposit", "transfer", "withdraw", "read"],
       required: true,
     },
     expiresAt: {
@@ -45,8 +104,45 @@ const keySchema = new Schema<IKey>(
       required: true,
       default: false,
     },
+    limits: {
+      type: keyLimitsSchema,
+    },
+    allowedIps: {
+      type: [String],
+      default: undefined,
+    },
+    signingSecret: {
+      type: String,
+    },
+    lastSpentAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    lastUsedIp: {
+      type: String,
+    },
+    expiryWarningsSent: {
+      type: [Number],
+      default: undefined,
+    },
+    rotatedFromId: {
+      type: String,
+      ref: "Key",
+    },
+    rotatedToId: {
+      type: String,
+      ref: "Key",
+    },
+    graceEndsAt: {
+      type: Date,
+    },
   },
   { timestamps: true }
 );
 
+// Rotated keys waiting for their grace period to end
+keySchema.index({ isRevoked: 1, graceEndsAt: 1 });
+
 export const Key = mongoose.model<IKey>("Key", keySchema);
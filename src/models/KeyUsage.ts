@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IKeyUsage extends Document {
+  keyId: string; // Reference to Key
+  userId: string; // Reference to User (key owner)
+  date: string; // UTC day, YYYY-MM-DD
+  count: number; // Authenticated requests made with the key that day
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const keyUsageSchema = new Schema<IKeyUsage>(
+  {
+    keyId: {
+      type: String,
+      ref: "Key",
+      required: true,
+    },
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+    },
+    date: {
+      type: String,
+      required: true,
+    },
+    count: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One counter per key and day, incremented in place
+keyUsageSchema.index({ keyId: 1, date: 1 }, { unique: true });
+
+export const KeyUsage = mongoose.model<IKeyUsage>("KeyUsage", keyUsageSchema);
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  Currency,
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+} from "../config/currencies";
+
+export type LedgerDirection = "debit" | "credit";
+
+export interface ILedgerEntry extends Document {
+  transactionId: string; // Reference to Transaction
+  reference: string; // Transaction reference, duplicated for audit lookups
+  account: string; // Wallet number or system account (e.g. SYSTEM_PAYSTACK)
+  direction: LedgerDirection;
+  amount: number; // Minor units of `currency`
+  currency: Currency;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ledgerEntrySchema = new Schema<ILedgerEntry>(
+  {
+    transactionId: {
+      type: String,
+      ref: "Transaction",
+      required: true,
+      index: true,
+    },
+    reference: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    account: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    direction: {
+      type: String,
+      enum: ["debit", "credit"],
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      default: DEFAULT_CURRENCY,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A transaction posts exactly one leg per account and direction
+ledgerEntrySchema.index(
+  { transactionId: 1, account: 1, direction: 1 },
+  { unique: true }
+);
+
+export const LedgerEntry = mongoose.model<ILedgerEntry>(
+  "LedgerEntry",
+  ledgerEntrySchema
+);
@@ -0,0 +1,30 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IMigration extends Document {
+  name: string; // Migration that has been applied to this database
+  appliedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const migrationSchema = new Schema<IMigration>(
+  {
+    name: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    appliedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const Migration = mongoose.model<IMigration>(
+  "Migration",
+  migrationSchema
+);
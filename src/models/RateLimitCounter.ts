@@ -0,0 +1,44 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IRateLimitCounter extends Document {
+  key: string; // Budget and caller, e.g. "permission:transfer:key:65f1c2..."
+  windowStart: Date; // Start of the fixed window being counted
+  count: number; // Requests made in the window
+  expiresAt: Date; // Removed after this; the window is over by then
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const rateLimitCounterSchema = new Schema<IRateLimitCounter>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    windowStart: {
+      type: Date,
+      required: true,
+    },
+    count: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One counter per budget, caller and window, incremented in place
+rateLimitCounterSchema.index({ key: 1, windowStart: 1 }, { unique: true });
+rateLimitCounterSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitCounter = mongoose.model<IRateLimitCounter>(
+  "RateLimitCounter",
+  rateLimitCounterSchema
+);
@@ -0,0 +1,142 @@
+import mongoose, { Document, Schema, Types } from "mongoose";
+
+export type DiscrepancyType =
+  | "missing_in_ledger" // Paid on Paystack, no successful deposit here
+  | "missing_at_paystack" // Successful deposit here, not paid on Paystack
+  | "duplicate" // Deposit credited to a wallet more than once
+  | "amount_mismatch" // Amounts or currencies differ
+  | "balance_mismatch"; // Wallet balances do not add up to the books
+
+export interface IDiscrepancy {
+  _id: Types.ObjectId;
+  type: DiscrepancyType;
+  reference?: string;
+  currency?: string;
+  expected?: number; // Paystack's amount, or the books' total
+  actual?: number; // Our amount, or the sum of wallet balances
+  detail: string;
+  resolved: boolean;
+  resolvedAt?: Date;
+  resolvedBy?: string; // Admin user ID
+  resolutionNote?: string;
+}
+
+export interface ICurrencySummary {
+  currency: string;
+  depositCount: number;
+  depositTotal: number;
+  paystackCount: number;
+  paystackTotal: number;
+  walletBalanceTotal: number; // Sum of Wallet.balance when the report ran
+  expectedWalletTotal: number; // Net money in according to the ledger
+}
+
+export interface IReconciliationReport extends Document {
+  date: string; // UTC day, YYYY-MM-DD
+  source: string; // Settlement source used (e.g. paystack)
+  status: "balanced" | "discrepancies";
+  currencies: ICurrencySummary[];
+  discrepancies: Types.DocumentArray<IDiscrepancy & Document>;
+  generatedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const discrepancySchema = new Schema<IDiscrepancy>({
+  type: {
+    type: String,
+    enum: [
+      "missing_in_ledger",
+      "missing_at_paystack",
+      "duplicate",
+      "amount_mismatch",
+      "balance_mismatch",
+    ],
+    required: true,
+  },
+  reference: {
+    type: String,
+  },
+  currency: {
+    type: String,
+  },
+  expected: {
+    type: Number,
+  },
+  actual: {
+    type: Number,
+  },
+  detail: {
+    type: String,
+    required: true,
+  },
+  resolved: {
+    type: Boolean,
+    default: false,
+  },
+  resolvedAt: {
+    type: Date,
+  },
+  resolvedBy: {
+    type: String,
+    ref: "User",
+  },
+  resolutionNote: {
+    type: String,
+  },
+});
+
+const currencySummarySchema = new Schema<ICurrencySummary>(
+  {
+    currency: { type: String, required: true },
+    depositCount: { type: Number, default: 0 },
+    depositTotal: { type: Number, default: 0 },
+    paystackCount: { type: Number, default: 0 },
+    paystackTotal: { type: Number, default: 0 },
+    walletBalanceTotal: { type: Number, default: 0 },
+    expectedWalletTotal: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+const reconciliationReportSchema = new Schema<IReconciliationReport>(
+  {
+    date: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    source: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["balanced", "discrepancies"],
+      required: true,
+    },
+    currencies: {
+      type: [currencySummarySchema],
+      default: [],
+    },
+    discrepancies: {
+      type: [discrepancySchema],
+      default: [],
+    },
+    generatedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Finance follows up on reports that still have open discrepancies
+reconciliationReportSchema.index({ "discrepancies.resolved": 1, date: -1 });
+
+export const ReconciliationReport = mongoose.model<IReconciliationReport>(
+  "ReconciliationReport",
+  reconciliationReportSchema
+);
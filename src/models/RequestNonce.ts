@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IRequestNonce extends Document {
+  keyId: string; // Reference to Key that signed the request
+  nonce: string; // Client-chosen value, unique per key
+  expiresAt: Date; // Removed after this; older timestamps are rejected anyway
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const requestNonceSchema = new Schema<IRequestNonce>(
+  {
+    keyId: {
+      type: String,
+      ref: "Key",
+      required: true,
+    },
+    nonce: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A nonce can be used once per key; a second insert is a replay
+requestNonceSchema.index({ keyId: 1, nonce: 1 }, { unique: true });
+requestNonceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RequestNonce = mongoose.model<IRequestNonce>(
+  "RequestNonce",
+  requestNonceSchema
+);
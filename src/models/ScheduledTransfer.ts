@@ -0,0 +1,145 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  Currency,
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+} from "../config/currencies";
+
+export type ScheduleFrequency = "once" | "daily" | "weekly" | "monthly";
+export type ScheduleStatus =
+  | "active"
+  | "paused"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface IScheduledTransfer extends Document {
+  userId: string; // Reference to User (sender)
+  recipientWalletNumber: string;
+  amount: number; // Minor units of `currency`
+  currency: Currency;
+  frequency: ScheduleFrequency;
+  startAt: Date; // First occurrence; later ones are counted from here
+  endAt?: Date; // No occurrences after this time
+  maxOccurrences?: number; // Stop after this many occurrences
+  occurrence: number; // Index of the next occurrence (0-based)
+  nextOccurrenceAt: Date; // When the next occurrence is due
+  nextRunAt: Date; // When the scheduler next tries it (later after a failure)
+  attempts: number; // Failed attempts for the current occurrence
+  status: ScheduleStatus;
+  successCount: number;
+  failureCount: number;
+  lastRunAt?: Date;
+  lastError?: string;
+  lastReference?: string; // Transaction of the last successful run
+  lockedUntil?: Date; // Claimed by a scheduler run until this time
+  note?: string;
+  apiKeyId?: string; // API key the schedule was created with; its limits apply
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const scheduledTransferSchema = new Schema<IScheduledTransfer>(
+  {
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    recipientWalletNumber: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      default: DEFAULT_CURRENCY,
+      required: true,
+    },
+    frequency: {
+      type: String,
+      enum: ["once", "daily", "weekly", "monthly"],
+      required: true,
+    },
+    startAt: {
+      type: Date,
+      required: true,
+    },
+    endAt: {
+      type: Date,
+    },
+    maxOccurrences: {
+      type: Number,
+      min: 1,
+    },
+    occurrence: {
+      type: Number,
+      default: 0,
+      required: true,
+    },
+    nextOccurrenceAt: {
+      type: Date,
+      required: true,
+    },
+    nextRunAt: {
+      type: Date,
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["active", "paused", "completed", "failed", "cancelled"],
+      default: "active",
+      required: true,
+    },
+    successCount: {
+      type: Number,
+      default: 0,
+    },
+    failureCount: {
+      type: Number,
+      default: 0,
+    },
+    lastRunAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+    lastReference: {
+      type: String,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    note: {
+      type: String,
+      trim: true,
+    },
+    apiKeyId: {
+      type: String,
+      ref: "Key",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// The scheduler polls for active schedules that are due
+scheduledTransferSchema.index({ status: 1, nextRunAt: 1 });
+
+export const ScheduledTransfer = mongoose.model<IScheduledTransfer>(
+  "ScheduledTransfer",
+  scheduledTransferSchema
+);
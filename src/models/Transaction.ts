@@ -1,17 +1,38 @@
 import mongoose, { Document, Schema } from "mongoose";
+import {
+  Currency,
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+} from "../config/currencies";
 
-export type TransactionStatus = "pending" | "success" | "failed";
-export type TransactionType = "deposit" | "transfer";
+export type TransactionStatus = "pending" | "success" | "failed" | "reversed";
+export type TransactionType =
+  | "deposit"
+  | "transfer"
+  | "refund"
+  | "dispute"
+  | "withdrawal"
+  | "conversion"
+  | "opening_balance"; // Balance held before the ledger existed
 
 export interface ITransaction extends Document {
   reference: string;
-  amount: number;
+  amount: number; // Minor units of `currency`
+  currency: Currency;
   type: TransactionType;
   status: TransactionStatus;
   paystackAuthorizationUrl?: string;
   userId?: string;
   senderId?: string;
   receiverId?: string;
+  relatedReference?: string; // Original deposit (refunds, disputes) or FX quote (conversions)
+  paystackRecipientCode?: string; // Withdrawal destination
+  paystackTransferCode?: string;
+  bankAccountNumber?: string;
+  bankCode?: string;
+  scheduledTransferId?: string; // Schedule that made this transfer
+  apiKeyId?: string; // API key that made this transfer or withdrawal
+  lastVerifiedAt?: Date; // Last time reconciliation checked a pending deposit
   paidAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -30,14 +51,28 @@ const transactionSchema = new Schema<ITransaction>(
       required: true,
       min: 0,
     },
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      default: DEFAULT_CURRENCY,
+      required: true,
+    },
     type: {
       type: String,
-      enum: ["deposit", "transfer"],
+      enum: [
+        "deposit",
+        "transfer",
+        "refund",
+        "dispute",
+        "withdrawal",
+        "conversion",
+        "opening_balance",
+      ],
       required: true,
     },
     status: {
       type: String,
-      enum: ["pending", "success", "failed"],
+      enum: ["pending", "success", "failed", "reversed"],
       default: "pending",
       required: true,
     },
@@ -53,6 +88,34 @@ const transactionSchema = new Schema<ITransaction>(
     receiverId: {
       type: String,
     },
+    relatedReference: {
+      type: String,
+      index: true,
+    },
+    paystackRecipientCode: {
+      type: String,
+    },
+    paystackTransferCode: {
+      type: String,
+    },
+    bankAccountNumber: {
+      type: String,
+    },
+    bankCode: {
+      type: String,
+    },
+    scheduledTransferId: {
+      type: String,
+      ref: "ScheduledTransfer",
+      index: true,
+    },
+    apiKeyId: {
+      type: String,
+      ref: "Key",
+    },
+    lastVerifiedAt: {
+      type: Date,
+    },
     paidAt: {
       type: Date,
     },
@@ -62,6 +125,17 @@ const transactionSchema = new Schema<ITransaction>(
   }
 );
 
+// History lookups filter on the participant and page by creation time
+transactionSchema.index({ userId: 1, createdAt: -1 });
+transactionSchema.index({ senderId: 1, createdAt: -1 });
+transactionSchema.index({ receiverId: 1, createdAt: -1 });
+
+// Reconciliation looks for old pending deposits
+transactionSchema.index({ type: 1, status: 1, createdAt: 1 });
+
+// API key spending caps add up a key's payments since a point in time
+transactionSchema.index({ apiKeyId: 1, createdAt: 1 });
+
 export const Transaction = mongoose.model<ITransaction>(
   "Transaction",
   transactionSchema
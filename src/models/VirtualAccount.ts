@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  Currency,
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+} from "../config/currencies";
+
+export interface IVirtualAccount extends Document {
+  userId: string; // Reference to User who owns the wallet
+  walletNumber: string; // Wallet credited by transfers into the account
+  currency: Currency;
+  paystackCustomerCode: string;
+  paystackDedicatedAccountId: number;
+  accountNumber: string; // Bank account number customers transfer to
+  accountName: string;
+  bankName: string;
+  bankSlug: string;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const virtualAccountSchema = new Schema<IVirtualAccount>(
+  {
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    walletNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      default: DEFAULT_CURRENCY,
+      required: true,
+    },
+    paystackCustomerCode: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    paystackDedicatedAccountId: {
+      type: Number,
+      required: true,
+    },
+    accountNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    accountName: {
+      type: String,
+      required: true,
+    },
+    bankName: {
+      type: String,
+      required: true,
+    },
+    bankSlug: {
+      type: String,
+      required: true,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const VirtualAccount = mongoose.model<IVirtualAccount>(
+  "VirtualAccount",
+  virtualAccountSchema
+);
@@ -1,8 +1,14 @@
 import mongoose, { Document, Schema } from "mongoose";
+import {
+  Currency,
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+} from "../config/currencies";
 
 export interface IWallet extends Document {
   walletNumber: string;
-  balance: number;
+  currency: Currency;
+  balance: number; // Minor units; only changed through the ledger service
   userId: string;
   createdAt: Date;
   updatedAt: Date;
@@ -16,6 +22,12 @@ const walletSchema = new Schema<IWallet>(
       unique: true,
       index: true,
     },
+    currency: {
+      type: String,
+      enum: SUPPORTED_CURRENCIES,
+      default: DEFAULT_CURRENCY,
+      required: true,
+    },
     balance: {
       type: Number,
       required: true,
@@ -26,7 +38,6 @@ const walletSchema = new Schema<IWallet>(
       type: String,
       ref: "User",
       required: true,
-      unique: true,
       index: true,
     },
   },
@@ -35,4 +46,7 @@ const walletSchema = new Schema<IWallet>(
   }
 );
 
+// A user holds at most one wallet per currency
+walletSchema.index({ userId: 1, currency: 1 }, { unique: true });
+
 export const Wallet = mongoose.model<IWallet>("Wallet", walletSchema);
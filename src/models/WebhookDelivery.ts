@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { OUTBOUND_EVENTS, OutboundEventType } from "./WebhookEndpoint";
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface IWebhookDelivery extends Document {
+  endpointId: string; // Reference to WebhookEndpoint
+  userId: string; // Reference to User (endpoint owner)
+  eventId: string; // Identifies one occurrence of the event, e.g. "transfer.sent:REF"
+  event: OutboundEventType;
+  body: string; // Exact JSON sent, so every attempt carries the same signature
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date; // When the next automatic retry is due
+  lastAttemptAt?: Date;
+  responseStatus?: number; // HTTP status of the last attempt
+  error?: string; // Why the last attempt failed
+  deliveredAt?: Date;
+  lockedUntil?: Date; // Claimed by a sender until this time
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    endpointId: {
+      type: String,
+      ref: "WebhookEndpoint",
+      required: true,
+    },
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    eventId: {
+      type: String,
+      required: true,
+    },
+    event: {
+      type: String,
+      enum: OUTBOUND_EVENTS,
+      required: true,
+    },
+    body: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "delivered", "failed"],
+      required: true,
+      default: "pending",
+    },
+    attempts: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+    },
+    lastAttemptAt: {
+      type: Date,
+    },
+    responseStatus: {
+      type: Number,
+    },
+    error: {
+      type: String,
+    },
+    deliveredAt: {
+      type: Date,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// An event is delivered to each endpoint once, however often it is emitted
+webhookDeliverySchema.index({ endpointId: 1, eventId: 1 }, { unique: true });
+// Delivery log, newest first
+webhookDeliverySchema.index({ endpointId: 1, createdAt: -1 });
+// The worker looks for due retries
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>(
+  "WebhookDelivery",
+  webhookDeliverySchema
+);
@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const OUTBOUND_EVENTS = [
+  "deposit.succeeded",
+  "transfer.received",
+  "transfer.sent",
+  "key.expiring",
+] as const;
+
+export type OutboundEventType = (typeof OUTBOUND_EVENTS)[number];
+
+export interface IWebhookEndpoint extends Document {
+  userId: string; // Reference to User
+  url: string; // Where events are POSTed
+  events: OutboundEventType[]; // Event types the endpoint subscribes to
+  secret: string; // Signs each delivery (x-wallet-signature)
+  description?: string;
+  active: boolean; // Inactive endpoints receive nothing
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookEndpointSchema = new Schema<IWebhookEndpoint>(
+  {
+    userId: {
+      type: String,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    url: {
+      type: String,
+      required: true,
+    },
+    events: {
+      type: [String],
+      enum: OUTBOUND_EVENTS,
+      required: true,
+    },
+    secret: {
+      type: String,
+      required: true,
+    },
+    description: {
+      type: String,
+    },
+    active: {
+      type: Boolean,
+      required: true,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const WebhookEndpoint = mongoose.model<IWebhookEndpoint>(
+  "WebhookEndpoint",
+  webhookEndpointSchema
+);
@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export type WebhookEventStatus =
+  | "received"
+  | "processed"
+  | "duplicate"
+  | "ignored"
+  | "failed"
+  | "rejected";
+
+export interface IWebhookEvent extends Document {
+  event: string; // Paystack event type, e.g. "charge.success"
+  reference?: string; // Reference of the Transaction the event applies to
+  dedupeKey?: string; // Identifies one occurrence of the event
+  payload: unknown; // Parsed webhook body
+  rawBody: string; // Exact body received (truncated when rejected), used for signature verification
+  signature?: string;
+  signatureValid: boolean;
+  status: WebhookEventStatus;
+  error?: string; // Last processing error
+  attempts: number;
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const webhookEventSchema = new Schema<IWebhookEvent>(
+  {
+    event: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    reference: {
+      type: String,
+      index: true,
+    },
+    dedupeKey: {
+      type: String,
+      index: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    rawBody: {
+      type: String,
+      required: true,
+    },
+    signature: {
+      type: String,
+    },
+    signatureValid: {
+      type: Boolean,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: [
+        "received",
+        "processed",
+        "duplicate",
+        "ignored",
+        "failed",
+        "rejected",
+      ],
+      default: "received",
+      required: true,
+      index: true,
+    },
+    error: {
+      type: String,
+    },
+    attempts: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    processedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Deliveries with a bad or missing signature are only kept for 7 days
+webhookEventSchema.index(
+  { createdAt: 1 },
+  {
+    expireAfterSeconds: 7 * 86400,
+    partialFilterExpression: { status: "rejected" },
+  }
+);
+
+export const WebhookEvent = mongoose.model<IWebhookEvent>(
+  "WebhookEvent",
+  webhookEventSchema
+);
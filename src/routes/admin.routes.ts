@@ -0,0 +1,695 @@
+import { Router, Response } from "express";
+import config from "../config";
+import webhookService from "../services/webhook.service";
+import depositReconciliationService from "../services/depositReconciliation.service";
+import ledgerReconciliationService from "../services/ledgerReconciliation.service";
+import withdrawalService from "../services/withdrawal.service";
+import { IWebhookEvent } from "../models/WebhookEvent";
+import { IReconciliationReport } from "../models/ReconciliationReport";
+import {
+  authenticate,
+  AuthRequest,
+  requireAdmin,
+} from "../middleware/auth.middleware";
+
+const router = Router();
+
+const formatWebhookEvent = (event: IWebhookEvent) => ({
+  id: event.id,
+  event: event.event,
+  reference: event.reference,
+  signature_valid: event.signatureValid,
+  status: event.status,
+  error: event.error,
+  attempts: event.attempts,
+  processed_at: event.processedAt,
+  created_at: event.createdAt,
+});
+
+const formatReport = (report: IReconciliationReport) => ({
+  date: report.date,
+  source: report.source,
+  status: report.status,
+  open_discrepancies: report.discrepancies.filter(
+    (discrepancy) => !discrepancy.resolved
+  ).length,
+  currencies: report.currencies.map((summary) => ({
+    currency: summary.currency,
+    deposit_count: summary.depositCount,
+    deposit_total: summary.depositTotal,
+    paystack_count: summary.paystackCount,
+    paystack_total: summary.paystackTotal,
+    wallet_balance_total: summary.walletBalanceTotal,
+    expected_wallet_total: summary.expectedWalletTotal,
+  })),
+  discrepancies: report.discrepancies.map((discrepancy) => ({
+    id: discrepancy.id,
+    type: discrepancy.type,
+    reference: discrepancy.reference,
+    currency: discrepancy.currency,
+    expected: discrepancy.expected,
+    actual: discrepancy.actual,
+    detail: discrepancy.detail,
+    resolved: discrepancy.resolved,
+    resolved_at: discrepancy.resolvedAt,
+    resolved_by: discrepancy.resolvedBy,
+    resolution_note: discrepancy.resolutionNote,
+  })),
+  generated_at: report.generatedAt,
+});
+
+const reportErrorResponse = (error: any, res: Response, fallback: string) => {
+  if (
+    [
+      "Date must be in YYYY-MM-DD format",
+      "Date cannot be in the future",
+    ].includes(error.message)
+  ) {
+    return res.status(400).json({
+      error: "invalid_input",
+      message: error.message,
+    });
+  }
+
+  if (error.message === "Discrepancy not found") {
+    return res.status(404).json({
+      error: "not_found",
+      message: error.message,
+    });
+  }
+
+  if (error.message === "Discrepancy is already resolved") {
+    return res.status(409).json({
+      error: "invalid_state",
+      message: error.message,
+    });
+  }
+
+  return res.status(500).json({
+    error: "internal_error",
+    message: fallback,
+  });
+};
+
+/**
+ * @swagger
+ * /admin/webhooks:
+ *   get:
+ *     summary: List stored Paystack webhook events
+ *     description: Retrieve received Paystack webhook events with their signature check and processing outcome
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [received, processed, duplicate, ignored, failed, rejected]
+ *         description: Only return events with this status
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *         description: Maximum number of events to return
+ *     responses:
+ *       200:
+ *         description: Webhook events retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WebhookEvent'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/webhooks",
+  authenticate,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+      const events = await webhookService.list(status, limit);
+
+      return res.status(200).json(events.map(formatWebhookEvent));
+    } catch (error) {
+      console.error("Unexpected error in listing webhook events:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/webhooks/{id}/replay:
+ *   post:
+ *     summary: Re-process a failed webhook event
+ *     description: Run a stored Paystack webhook event that failed to process again. Events that were already applied are never applied twice.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Webhook event ID
+ *     responses:
+ *       200:
+ *         description: Webhook event re-processed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookEvent'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Webhook event not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Webhook event is not in failed status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/webhooks/:id/replay",
+  authenticate,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const event = await webhookService.replay(req.params.id);
+
+      return res.status(200).json(formatWebhookEvent(event));
+    } catch (error: any) {
+      console.error("Error replaying webhook event:", error);
+
+      if (error.message === "Webhook event not found") {
+        return res.status(404).json({
+          error: "not_found",
+          message: error.message,
+        });
+      }
+
+      if (error.message === "Only failed webhook events can be replayed") {
+        return res.status(409).json({
+          error: "invalid_state",
+          message: error.message,
+        });
+      }
+
+      return res.status(500).json({
+        error: "internal_error",
+        message: "Failed to replay webhook event",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/deposits/reconciliation:
+ *   get:
+ *     summary: Stale deposit reconciliation status
+ *     description: Counts from the background job that verifies long-pending deposits with Paystack. Counts are kept per API instance since it started.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reconciliation counts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 enabled:
+ *                   type: boolean
+ *                 last_run:
+ *                   $ref: '#/components/schemas/DepositReconciliationRun'
+ *                 totals:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/DepositReconciliationRun'
+ *                     - type: object
+ *                       properties:
+ *                         runs:
+ *                           type: number
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/deposits/reconciliation",
+  authenticate,
+  requireAdmin,
+  async (_req: AuthRequest, res: Response) => {
+    const { lastRun, totals } = depositReconciliationService;
+
+    return res.status(200).json({
+      enabled: config.depositReconciliation.enabled,
+      last_run: lastRun && {
+        started_at: lastRun.startedAt,
+        finished_at: lastRun.finishedAt,
+        checked: lastRun.checked,
+        credited: lastRun.credited,
+        failed: lastRun.failed,
+        pending: lastRun.pending,
+        skipped: lastRun.skipped,
+        errors: lastRun.errors,
+      },
+      totals,
+    });
+  }
+);
+
+/**
+ * @swagger
+ * /admin/reconciliation/{date}:
+ *   get:
+ *     summary: Daily ledger reconciliation report
+ *     description: Compare the day's successful deposits with the payments Paystack reports, and check that all wallet balances add up to the ledger's net deposits less withdrawals. The report is generated on first request and stored with its discrepancies for follow-up.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: UTC day to reconcile (YYYY-MM-DD)
+ *     responses:
+ *       200:
+ *         description: Reconciliation report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReconciliationReport'
+ *       400:
+ *         description: Invalid or future date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   post:
+ *     summary: Regenerate a reconciliation report
+ *     description: Run the reconciliation for the day again, for example after a missing deposit was credited. Discrepancies already marked resolved stay resolved.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: UTC day to reconcile (YYYY-MM-DD)
+ *     responses:
+ *       200:
+ *         description: Regenerated report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReconciliationReport'
+ *       400:
+ *         description: Invalid or future date
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/reconciliation/:date",
+  authenticate,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const report = await ledgerReconciliationService.getOrGenerate(
+        req.params.date
+      );
+
+      return res.status(200).json(formatReport(report));
+    } catch (error: any) {
+      console.error("Error fetching reconciliation report:", error);
+      return reportErrorResponse(
+        error,
+        res,
+        "Failed to fetch reconciliation report"
+      );
+    }
+  }
+);
+
+router.post(
+  "/reconciliation/:date",
+  authenticate,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const report = await ledgerReconciliationService.generate(
+        req.params.date
+      );
+
+      return res.status(200).json(formatReport(report));
+    } catch (error: any) {
+      console.error("Error regenerating reconciliation report:", error);
+      return reportErrorResponse(
+        error,
+        res,
+        "Failed to regenerate reconciliation report"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/reconciliation/{date}/discrepancies/{id}/resolve:
+ *   post:
+ *     summary: Resolve a reconciliation discrepancy
+ *     description: Mark a discrepancy as followed up, with an optional note on what was done
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: UTC day to reconcile (YYYY-MM-DD)
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Discrepancy ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 example: Deposit credited manually after support ticket
+ *     responses:
+ *       200:
+ *         description: Updated report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReconciliationReport'
+ *       400:
+ *         description: Invalid date or note
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Report or discrepancy not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Discrepancy is already resolved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/reconciliation/:date/discrepancies/:id/resolve",
+  authenticate,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { note } = req.body;
+
+      if (note !== undefined && typeof note !== "string") {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: "note must be a string",
+        });
+      }
+
+      const report = await ledgerReconciliationService.resolve(
+        req.params.date,
+        req.params.id,
+        req.user!.id,
+        note
+      );
+
+      return res.status(200).json(formatReport(report));
+    } catch (error: any) {
+      console.error("Error resolving reconciliation discrepancy:", error);
+      return reportErrorResponse(error, res, "Failed to resolve discrepancy");
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /admin/withdrawals/{reference}/finalize:
+ *   post:
+ *     summary: Approve a withdrawal waiting for OTP
+ *     description: When transfer OTPs are enabled on the Paystack account, withdrawals stay pending until approved with the OTP Paystack sends to the business owner. The withdrawal then settles through the transfer webhook or the withdrawal status endpoint.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reference
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Withdrawal reference
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - otp
+ *             properties:
+ *               otp:
+ *                 type: string
+ *                 example: "928783"
+ *     responses:
+ *       200:
+ *         description: OTP accepted by Paystack
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reference:
+ *                   type: string
+ *                 status:
+ *                   type: string
+ *                   description: Paystack's transfer status after approval
+ *       400:
+ *         description: OTP missing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       402:
+ *         description: Paystack rejected the OTP
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Withdrawal not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Withdrawal is not waiting for approval
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/withdrawals/:reference/finalize",
+  authenticate,
+  requireAdmin,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await withdrawalService.finalize(
+        req.params.reference,
+        req.body.otp
+      );
+
+      return res.status(200).json(result);
+    } catch (error: any) {
+      switch (error.message) {
+        case "OTP is required":
+          return res.status(400).json({
+            error: "invalid_input",
+            message: error.message,
+          });
+        case "Withdrawal not found":
+          return res.status(404).json({
+            error: "not_found",
+            message: error.message,
+          });
+        case "Withdrawal is not waiting for approval":
+          return res.status(409).json({
+            error: "invalid_state",
+            message: error.message,
+          });
+      }
+
+      if (error.message?.startsWith("Paystack")) {
+        return res.status(402).json({
+          error: "finalization_failed",
+          message: error.message,
+        });
+      }
+
+      console.error("Error finalizing withdrawal:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "Failed to finalize withdrawal",
+      });
+    }
+  }
+);
+
+export default router;
@@ -1,9 +1,10 @@
 import { Router, Request, Response } from "express";
 import jwt from "jsonwebtoken";
 import googleAuthService from "../services/googleAuth.service";
+import walletAccountService from "../services/walletAccount.service";
 import { User } from "../models/User";
-import { Wallet } from "../models/Wallet";
 import config from "../config";
+import { rateLimit } from "../middleware/rateLimit.middleware";
 
 const router = Router();
 
@@ -32,7 +33,7 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get("/google", (req: Request, res: Response) => {
+router.get("/google", rateLimit(), (req: Request, res: Response) => {
   try {
     const googleAuthUrl = googleAuthService.getAuthorizationUrl();
 
@@ -100,113 +101,110 @@ router.get("/google", (req: Request, res: Response) => {
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.get("/google/callback", async (req: Request, res: Response) => {
-  try {
-    const { code, error } = req.query;
-
-    // Check if user denied access
-    if (error) {
-      return res.status(400).json({
-        error: "access_denied",
-        message: "User denied access to Google account",
-      });
-    }
+router.get(
+  "/google/callback",
+  rateLimit(),
+  async (req: Request, res: Response) => {
+    try {
+      const { code, error } = req.query;
 
-    // Validate code parameter
-    if (!code || typeof code !== "string") {
-      return res.status(400).json({
-        error: "bad_request",
-        message: "Missing or invalid authorization code",
-      });
-    }
+      // Check if user denied access
+      if (error) {
+        return res.status(400).json({
+          error: "access_denied",
+          message: "User denied access to Google account",
+        });
+      }
 
-    // Exchange code for access token
-    let accessToken: string;
-    try {
-      accessToken = await googleAuthService.getAccessToken(code);
-    } catch (error) {
-      console.error("Failed to exchange code for token:", error);
-      return res.status(401).json({
-        error: "invalid_grant",
-        message: "Invalid or expired authorization code",
-      });
-    }
+      // Validate code parameter
+      if (!code || typeof code !== "string") {
+        return res.status(400).json({
+          error: "bad_request",
+          message: "Missing or invalid authorization code",
+        });
+      }
 
-    // Fetch user information from Google
-    let userInfo;
-    try {
-      userInfo = await googleAuthService.getUserInfo(accessToken);
-      console.log("userinfo: ", userInfo);
-    } catch (error) {
-      console.error("Failed to fetch user info:", error);
-      return res.status(500).json({
-        error: "provider_error",
-        message: "Failed to retrieve user information from Google",
-      });
-    }
+      // Exchange code for access token
+      let accessToken: string;
+      try {
+        accessToken = await googleAuthService.getAccessToken(code);
+      } catch (error) {
+        console.error("Failed to exchange code for token:", error);
+        return res.status(401).json({
+          error: "invalid_grant",
+          message: "Invalid or expired authorization code",
+        });
+      }
 
-    // Create or update user in database
-    let user;
-    let wallet;
-    try {
-      // Check if user already exists
-      user = await User.findOne({ googleId: userInfo.id });
-
-      if (!user) {
-        // Create new user
-        user = await User.create({
-          googleId: userInfo.id,
-          email: userInfo.email,
-          name: userInfo.name,
-          picture: userInfo.picture,
+      // Fetch user information from Google
+      let userInfo;
+      try {
+        userInfo = await googleAuthService.getUserInfo(accessToken);
+        console.log("userinfo: ", userInfo);
+      } catch (error) {
+        console.error("Failed to fetch user info:", error);
+        return res.status(500).json({
+          error: "provider_error",
+          message: "Failed to retrieve user information from Google",
         });
-      } else {
-        // Update existing user info
-        user.name = userInfo.name;
-        user.picture = userInfo.picture;
-        await user.save();
       }
 
-      // Find or create wallet for this user
-      wallet = await Wallet.findOne({ userId: user._id });
-      if (!wallet) {
-        wallet = await Wallet.create({
-          walletNumber: googleAuthService.generateWallet(),
-          balance: 0,
-          userId: user._id,
+      // Create or update user in database
+      let user;
+      let wallet;
+      try {
+        // Check if user already exists
+        user = await User.findOne({ googleId: userInfo.id });
+
+        if (!user) {
+          // Create new user
+          user = await User.create({
+            googleId: userInfo.id,
+            email: userInfo.email,
+            name: userInfo.name,
+            picture: userInfo.picture,
+          });
+        } else {
+          // Update existing user info
+          user.name = userInfo.name;
+          user.picture = userInfo.picture;
+          await user.save();
+        }
+
+        // Find or create the user's default (NGN) wallet
+        wallet = await walletAccountService.open(user.id);
+      } catch (error) {
+        console.error("Database error:", error);
+        return res.status(500).json({
+          error: "database_error",
+          message: "Failed to save user information",
         });
       }
+
+      // Generate JWT token
+      const token = jwt.sign(
+        { id: user._id.toString(), email: user.email },
+        config.jwtSecret,
+        { expiresIn: "7d" }
+      );
+
+      // Return user information
+      return res.status(200).json({
+        user_id: user._id.toString(),
+        email: user.email,
+        name: user.name,
+        wallet: wallet.walletNumber,
+        picture: user.picture,
+        token,
+      });
     } catch (error) {
-      console.error("Database error:", error);
+      console.error("Unexpected error in Google callback:", error);
       return res.status(500).json({
-        error: "database_error",
-        message: "Failed to save user information",
+        error: "internal_error",
+        message: "An unexpected error occurred",
       });
     }
-
-    // Generate JWT token
-    const token = jwt.sign(
-      { id: user._id.toString(), email: user.email },
-      config.jwtSecret,
-      { expiresIn: "7d" }
-    );
-
-    // Return user information
-    return res.status(200).json({
-      user_id: user._id.toString(),
-      email: user.email,
-      name: user.name,
-      wallet: wallet.walletNumber,
-      picture: user.picture,
-      token,
-    });
-  } catch (error) {
-    console.error("Unexpected error in Google callback:", error);
-    return res.status(500).json({
-      error: "internal_error",
-      message: "An unexpected error occurred",
-    });
   }
-});
+);
 
 export default router;
@@ -0,0 +1,465 @@
+import { Router, Response } from "express";
+import beneficiaryService from "../services/beneficiary.service";
+import { IBeneficiary } from "../models/Beneficiary";
+import {
+  authenticate,
+  AuthRequest,
+  requireLiveMode,
+  requirePermission,
+} from "../middleware/auth.middleware";
+import { rateLimit } from "../middleware/rateLimit.middleware";
+
+const router = Router();
+
+const INVALID_INPUT_MESSAGES = [
+  "Nickname is required",
+  "Type must be either wallet or bank",
+  "Wallet number is required",
+  "Account number must be 10 digits",
+  "Bank code is required",
+  "You cannot save your own wallet as a beneficiary",
+];
+
+const formatBeneficiary = (beneficiary: IBeneficiary) => ({
+  id: beneficiary.id,
+  nickname: beneficiary.nickname,
+  type: beneficiary.type,
+  wallet_number: beneficiary.walletNumber,
+  account_number: beneficiary.accountNumber,
+  bank_code: beneficiary.bankCode,
+  bank_name: beneficiary.bankName,
+  account_name: beneficiary.accountName,
+  created_at: beneficiary.createdAt,
+});
+
+const handleBeneficiaryError = (
+  error: any,
+  res: Response,
+  fallbackMessage: string
+) => {
+  if (INVALID_INPUT_MESSAGES.includes(error.message)) {
+    return res.status(400).json({
+      error: "invalid_input",
+      message: error.message,
+    });
+  }
+
+  if (
+    error.message === "Beneficiary not found" ||
+    error.message === "Recipient wallet not found"
+  ) {
+    return res.status(404).json({
+      error: "not_found",
+      message: error.message,
+    });
+  }
+
+  if (error.message === "A beneficiary with this nickname already exists") {
+    return res.status(409).json({
+      error: "duplicate_beneficiary",
+      message: error.message,
+    });
+  }
+
+  if (error.message?.startsWith("Paystack")) {
+    return res.status(422).json({
+      error: "account_resolution_failed",
+      message: error.message,
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    error: "internal_error",
+    message: fallbackMessage,
+  });
+};
+
+/**
+ * @swagger
+ * /wallet/beneficiaries:
+ *   get:
+ *     summary: List saved beneficiaries
+ *     description: Retrieve the authenticated user's saved wallet and bank beneficiaries
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Beneficiaries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Beneficiary'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/",
+  authenticate,
+  requireLiveMode,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const beneficiaries = await beneficiaryService.list(req.user!.id);
+      return res.status(200).json(beneficiaries.map(formatBeneficiary));
+    } catch (error) {
+      return handleBeneficiaryError(
+        error,
+        res,
+        "Failed to retrieve beneficiaries"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/beneficiaries:
+ *   post:
+ *     summary: Save a beneficiary
+ *     description: Save an internal wallet or a bank account under a nickname. Bank accounts are resolved with Paystack so the stored account name is the real account holder's.
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - nickname
+ *               - type
+ *             properties:
+ *               nickname:
+ *                 type: string
+ *                 example: Landlord
+ *               type:
+ *                 type: string
+ *                 enum: [wallet, bank]
+ *               wallet_number:
+ *                 type: string
+ *                 description: Required for wallet beneficiaries
+ *                 example: "4566678954356"
+ *               account_number:
+ *                 type: string
+ *                 description: Required for bank beneficiaries
+ *                 example: "0123456789"
+ *               bank_code:
+ *                 type: string
+ *                 description: Required for bank beneficiaries
+ *                 example: "058"
+ *     responses:
+ *       201:
+ *         description: Beneficiary saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Beneficiary'
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Recipient wallet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Nickname already in use
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Bank account could not be resolved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/",
+  authenticate,
+  requireLiveMode,
+  requirePermission("transfer"),
+  rateLimit("transfer"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { nickname, type, wallet_number, account_number, bank_code } =
+        req.body;
+
+      const beneficiary = await beneficiaryService.create(req.user!.id, {
+        nickname,
+        type,
+        walletNumber: wallet_number,
+        accountNumber: account_number,
+        bankCode: bank_code,
+      });
+
+      return res.status(201).json(formatBeneficiary(beneficiary));
+    } catch (error) {
+      return handleBeneficiaryError(error, res, "Failed to save beneficiary");
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/beneficiaries/{id}:
+ *   get:
+ *     summary: Get a beneficiary
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Beneficiary ID
+ *     responses:
+ *       200:
+ *         description: Beneficiary retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Beneficiary'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Beneficiary not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/:id",
+  authenticate,
+  requireLiveMode,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const beneficiary = await beneficiaryService.get(
+        req.user!.id,
+        req.params.id
+      );
+      return res.status(200).json(formatBeneficiary(beneficiary));
+    } catch (error) {
+      return handleBeneficiaryError(
+        error,
+        res,
+        "Failed to retrieve beneficiary"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/beneficiaries/{id}:
+ *   patch:
+ *     summary: Rename a beneficiary
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Beneficiary ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - nickname
+ *             properties:
+ *               nickname:
+ *                 type: string
+ *                 example: Landlord (new flat)
+ *     responses:
+ *       200:
+ *         description: Beneficiary updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Beneficiary'
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Beneficiary not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Nickname already in use
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch(
+  "/:id",
+  authenticate,
+  requireLiveMode,
+  requirePermission("transfer"),
+  rateLimit("transfer"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const beneficiary = await beneficiaryService.rename(
+        req.user!.id,
+        req.params.id,
+        req.body.nickname
+      );
+      return res.status(200).json(formatBeneficiary(beneficiary));
+    } catch (error) {
+      return handleBeneficiaryError(error, res, "Failed to update beneficiary");
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/beneficiaries/{id}:
+ *   delete:
+ *     summary: Delete a beneficiary
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Beneficiary ID
+ *     responses:
+ *       200:
+ *         description: Beneficiary deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Beneficiary deleted successfully
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Beneficiary not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  "/:id",
+  authenticate,
+  requireLiveMode,
+  requirePermission("transfer"),
+  rateLimit("transfer"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await beneficiaryService.remove(req.user!.id, req.params.id);
+      return res.status(200).json({
+        message: "Beneficiary deleted successfully",
+      });
+    } catch (error) {
+      return handleBeneficiaryError(error, res, "Failed to delete beneficiary");
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,167 @@
+import { Router, Response } from "express";
+import cardService from "../services/card.service";
+import { ICard } from "../models/Card";
+import {
+  authenticate,
+  AuthRequest,
+  requireLiveMode,
+  requirePermission,
+} from "../middleware/auth.middleware";
+import { rateLimit } from "../middleware/rateLimit.middleware";
+
+const router = Router();
+
+const formatCard = (card: ICard) => ({
+  id: card.id,
+  brand: card.brand,
+  card_type: card.cardType,
+  last4: card.last4,
+  exp_month: card.expMonth,
+  exp_year: card.expYear,
+  bank: card.bank,
+  reusable: card.reusable,
+  last_used_at: card.lastUsedAt,
+  created_at: card.createdAt,
+});
+
+/**
+ * @swagger
+ * /wallet/cards:
+ *   get:
+ *     summary: List saved cards
+ *     description: Cards are saved automatically when a card deposit succeeds. Cards with reusable set to true can be charged with POST /wallet/deposit and a card_id.
+ *     tags: [Cards]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Saved cards retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Card'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/",
+  authenticate,
+  requireLiveMode,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const cards = await cardService.list(req.user!.id);
+      return res.status(200).json(cards.map(formatCard));
+    } catch (error) {
+      console.error("Failed to retrieve cards:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "Failed to retrieve cards",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/cards/{id}:
+ *   delete:
+ *     summary: Remove a saved card
+ *     description: Deletes the card and deactivates its authorization on Paystack, so it can no longer be charged.
+ *     tags: [Cards]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Card ID
+ *     responses:
+ *       200:
+ *         description: Card removed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Card removed successfully
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Card not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  "/:id",
+  authenticate,
+  requireLiveMode,
+  requirePermission("deposit"),
+  rateLimit("deposit"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await cardService.remove(req.user!.id, req.params.id);
+      return res.status(200).json({
+        message: "Card removed successfully",
+      });
+    } catch (error: any) {
+      if (error.message === "Card not found") {
+        return res.status(404).json({
+          error: "not_found",
+          message: error.message,
+        });
+      }
+
+      console.error("Failed to remove card:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "Failed to remove card",
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,298 @@
+import { Router, Response } from "express";
+import fxService from "../services/fx.service";
+import walletAccountService from "../services/walletAccount.service";
+import { IFxQuote } from "../models/FxQuote";
+import {
+  authenticate,
+  AuthRequest,
+  requireLiveMode,
+  requirePermission,
+} from "../middleware/auth.middleware";
+import { rateLimit } from "../middleware/rateLimit.middleware";
+import { idempotency } from "../middleware/idempotency.middleware";
+
+const router = Router();
+
+const INVALID_INPUT_MESSAGES = [
+  "Currency is required",
+  "Unsupported currency",
+  "Amount must be a positive whole number of minor units",
+  "Cannot convert a currency to itself",
+  "Amount is too small to convert",
+];
+
+const formatQuote = (quote: IFxQuote) => ({
+  quote_id: quote.id,
+  reference: quote.reference,
+  from_currency: quote.fromCurrency,
+  to_currency: quote.toCurrency,
+  from_amount: quote.fromAmount,
+  to_amount: quote.toAmount,
+  mid_rate: quote.midRate,
+  rate: quote.rate,
+  spread_bps: quote.spreadBps,
+  status: quote.status,
+  expires_at: quote.expiresAt,
+});
+
+/**
+ * @swagger
+ * /wallet/fx/quote:
+ *   post:
+ *     summary: Get a currency conversion quote
+ *     description: Price a conversion between two of the user's currencies. The rate includes the platform spread and is guaranteed until the quote expires.
+ *     tags: [FX]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - from_currency
+ *               - to_currency
+ *               - amount
+ *             properties:
+ *               from_currency:
+ *                 type: string
+ *                 enum: [NGN, GHS, KES, ZAR, USD]
+ *                 example: USD
+ *               to_currency:
+ *                 type: string
+ *                 enum: [NGN, GHS, KES, ZAR, USD]
+ *                 example: NGN
+ *               amount:
+ *                 type: number
+ *                 description: Amount to convert in minor units of from_currency
+ *                 example: 10000
+ *     responses:
+ *       201:
+ *         description: Quote created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/FxQuote'
+ *       400:
+ *         description: Invalid currency or amount
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       503:
+ *         description: No exchange rate provider is configured, or it cannot be reached
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/quote",
+  authenticate,
+  requireLiveMode,
+  requirePermission("transfer"),
+  rateLimit("transfer"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { from_currency, to_currency, amount } = req.body;
+
+      try {
+        if (!from_currency || !to_currency) {
+          throw new Error("Currency is required");
+        }
+
+        const quote = await fxService.quote(
+          req.user!.id,
+          walletAccountService.parseCurrency(from_currency),
+          walletAccountService.parseCurrency(to_currency),
+          amount
+        );
+
+        return res.status(201).json(formatQuote(quote));
+      } catch (error: any) {
+        if (INVALID_INPUT_MESSAGES.includes(error.message)) {
+          return res.status(400).json({
+            error: "invalid_input",
+            message: error.message,
+          });
+        }
+        if (error.message === "Exchange rates are unavailable") {
+          return res.status(503).json({
+            error: "fx_unavailable",
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+    } catch (error) {
+      console.error("Unexpected error in creating FX quote:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/fx/convert:
+ *   post:
+ *     summary: Execute a conversion quote
+ *     description: Convert funds between the user's wallets at the quoted rate. The source wallet is debited and the destination wallet credited atomically, and both legs are recorded as linked conversion transactions. The destination wallet is opened if needed.
+ *     tags: [FX]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - quote_id
+ *             properties:
+ *               quote_id:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Conversion status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   enum: [success, failed]
+ *                 message:
+ *                   type: string
+ *                   example: Conversion completed
+ *                 quote:
+ *                   $ref: '#/components/schemas/FxQuote'
+ *                 debit_reference:
+ *                   type: string
+ *                 credit_reference:
+ *                   type: string
+ *       400:
+ *         description: Quote expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Quote or source wallet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Quote already used, or Idempotency-Key conflict
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/convert",
+  authenticate,
+  requireLiveMode,
+  requirePermission("transfer"),
+  rateLimit("transfer"),
+  idempotency,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      let result;
+      try {
+        result = await fxService.convert(req.user!.id, req.body.quote_id);
+      } catch (error: any) {
+        switch (error.message) {
+          case "Quote has expired":
+            return res.status(400).json({
+              error: "quote_expired",
+              message: error.message,
+            });
+          case "Quote not found":
+            return res.status(404).json({
+              error: "not_found",
+              message: error.message,
+            });
+          case "Wallet not found for this user":
+            return res.status(404).json({
+              error: "wallet_not_found",
+              message: error.message,
+            });
+          case "Quote has already been used":
+            return res.status(409).json({
+              error: "quote_used",
+              message: error.message,
+            });
+          case "Insufficient balance":
+            return res.status(200).json({
+              status: "failed",
+              message: "Insufficient Balance",
+            });
+          default:
+            throw error;
+        }
+      }
+
+      return res.status(200).json({
+        status: "success",
+        message: "Conversion completed",
+        quote: formatQuote(result.quote),
+        debit_reference: result.debit.reference,
+        credit_reference: result.credit.reference,
+      });
+    } catch (error) {
+      console.error("Unexpected error in converting currency:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+export default router;
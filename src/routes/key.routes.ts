@@ -1,15 +1,228 @@
 import { Router, Response } from "express";
 import keyService from "../services/key.service";
-import { authenticate, AuthRequest } from "../middleware/auth.middleware";
+import keyRotationService from "../services/keyRotation.service";
+import keySecurityService from "../services/keySecurity.service";
+import { IKey, IKeyLimits } from "../models/Key";
+import {
+  authenticate,
+  AuthRequest,
+  requireJwt,
+} from "../middleware/auth.middleware";
+import { rateLimit } from "../middleware/rateLimit.middleware";
 
 const router = Router();
 
+const SETTINGS_MESSAGES = [
+  "Limits must be an object",
+  "Unsupported currency",
+  "allowed_recipients must be a list of wallet numbers",
+  "allowed_ips must be a non-empty list of IP addresses or CIDR ranges",
+  "signed_requests must be a boolean",
+  "mode must be live or test",
+];
+
+const isSettingsError = (error: any) =>
+  SETTINGS_MESSAGES.includes(error.message) ||
+  error.message?.endsWith("must be a positive whole number of minor units");
+
+const formatLimits = (limits?: IKeyLimits) =>
+  limits && {
+    currency: limits.currency,
+    max_per_transaction: limits.maxPerTransaction,
+    daily_limit: limits.dailyLimit,
+    monthly_limit: limits.monthlyLimit,
+    allowed_recipients: limits.allowedRecipients,
+  };
+
+const MAX_USAGE_DAYS = 90;
+
+const maskKey = (key: IKey) => (key.prefix ? `${key.prefix}...` : undefined);
+
+const formatKey = (key: IKey) => ({
+  id: key.id,
+  name: key.name,
+  mode: key.mode,
+  prefix: maskKey(key),
+  permissions: key.permissions,
+  status: keyService.status(key),
+  created_at: key.createdAt,
+  expires_at: key.expiresAt,
+  last_used_at: key.lastUsedAt,
+  last_used_ip: key.lastUsedIp,
+  rotated_from: key.rotatedFromId,
+  rotated_to: key.rotatedToId,
+  grace_ends_at: key.graceEndsAt,
+});
+
+/**
+ * @swagger
+ * /keys:
+ *   get:
+ *     summary: List API keys
+ *     description: All of the user's API keys, newest first, including expired and revoked ones. Keys are shown by their masked prefix; the full key is only ever returned when it is created. Requires a JWT.
+ *     tags: [API Keys]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The user's keys
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 keys:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiKeyInfo'
+ *       401:
+ *         description: Unauthorized - invalid or missing JWT token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Called with an API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/",
+  authenticate,
+  requireJwt,
+  rateLimit(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const keys = await keyService.list(req.user!.id);
+      return res.status(200).json({ keys: keys.map(formatKey) });
+    } catch (error) {
+      console.error("Error listing API keys:", error);
+      return res.status(500).json({
+        error: "internal_server_error",
+        message: "Failed to list API keys",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /keys/{id}/usage:
+ *   get:
+ *     summary: Get an API key's usage
+ *     description: Authenticated requests made with the key per UTC day, oldest first. Days without requests have a count of 0. Requires a JWT.
+ *     tags: [API Keys]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: days
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 90
+ *           default: 30
+ *         description: Number of days to return, ending today
+ *     responses:
+ *       200:
+ *         description: Daily request counts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/KeyUsage'
+ *       400:
+ *         description: Invalid days
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - invalid or missing JWT token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Called with an API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/:id/usage",
+  authenticate,
+  requireJwt,
+  rateLimit(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const days = req.query.days === undefined ? 30 : Number(req.query.days);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_USAGE_DAYS) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: `days must be a whole number from 1 to ${MAX_USAGE_DAYS}`,
+        });
+      }
+
+      const usage = await keyService.getUsage(
+        req.user!.id,
+        req.params.id,
+        days
+      );
+      return res.status(200).json({
+        id: usage.key.id,
+        name: usage.key.name,
+        total: usage.days.reduce((sum, day) => sum + day.count, 0),
+        days: usage.days,
+      });
+    } catch (error: any) {
+      if (error.message === "API key not found") {
+        return res.status(404).json({
+          error: "not_found",
+          message: error.message,
+        });
+      }
+
+      console.error("Error getting API key usage:", error);
+      return res.status(500).json({
+        error: "internal_server_error",
+        message: "Failed to get API key usage",
+      });
+    }
+  }
+);
+
 /**
  * @swagger
  * /keys/create:
  *   post:
  *     summary: Create a new API key
- *     description: Generate a new API key with specified permissions and expiry (max 5 active keys per user)
+ *     description: Generate a new API key with specified permissions and expiry (max 5 active keys per user). Optional spending limits restrict the transfers and withdrawals the key can make. Requires a JWT; API keys cannot create keys.
  *     tags: [API Keys]
  *     security:
  *       - BearerAuth: []
@@ -32,7 +245,7 @@ const router = Router();
  *                 type: array
  *                 items:
  *                   type: string
- *                   enum: [deposit, transfer, read]
+ *                   enum: [deposit, transfer, withdraw, read]
  *                 description: Array of permissions to grant
  *                 example: ["deposit", "read"]
  *               expiry:
@@ -40,6 +253,22 @@ const router = Router();
  *                 enum: [1H, 1D, 1M, 1Y]
  *                 description: Key expiration time (H=Hour, D=Day, M=Month, Y=Year)
  *                 example: 1M
+ *               mode:
+ *                 type: string
+ *                 enum: [live, test]
+ *                 default: live
+ *                 description: Test keys (sk_test_) act on an isolated sandbox ledger and never reach Paystack
+ *               limits:
+ *                 $ref: '#/components/schemas/KeyLimits'
+ *               allowed_ips:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: IP addresses or CIDR ranges the key may be used from
+ *                 example: ["203.0.113.7", "10.0.0.0/8"]
+ *               signed_requests:
+ *                 type: boolean
+ *                 description: Require every request made with the key to be signed. The signing secret is returned once in the response.
  *     responses:
  *       201:
  *         description: API key created successfully
@@ -60,7 +289,7 @@ const router = Router();
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       403:
- *         description: Limit exceeded - maximum 5 active keys allowed
+ *         description: Limit exceeded - maximum 5 active keys allowed, or called with an API key
  *         content:
  *           application/json:
  *             schema:
@@ -75,6 +304,8 @@ const router = Router();
 router.post(
   "/create",
   authenticate,
+  requireJwt,
+  rateLimit(),
   async (req: AuthRequest, res: Response) => {
     try {
       const { name, permissions, expiry } = req.body;
@@ -87,6 +318,34 @@ router.post(
         });
       }
 
+      let limits: IKeyLimits | null | undefined;
+      let allowedIps: string[] | undefined;
+      const signedRequests = req.body.signed_requests ?? false;
+      const mode = req.body.mode ?? "live";
+      try {
+        if (mode !== "live" && mode !== "test") {
+          throw new Error("mode must be live or test");
+        }
+        limits = keyService.parseLimits(req.body.limits);
+        if (
+          req.body.allowed_ips !== undefined &&
+          req.body.allowed_ips !== null
+        ) {
+          allowedIps = keySecurityService.parseAllowedIps(req.body.allowed_ips);
+        }
+        if (typeof signedRequests !== "boolean") {
+          throw new Error("signed_requests must be a boolean");
+        }
+      } catch (error: any) {
+        if (isSettingsError(error)) {
+          return res.status(400).json({
+            error: "invalid_input",
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+
       const activeKeys = await keyService.countActiveKeys(userId!);
       const maxKeysAllowed = 5;
       if (activeKeys >= maxKeysAllowed) {
@@ -100,11 +359,24 @@ router.post(
         userId!,
         name,
         permissions,
-        expiry
+        expiry,
+        {
+          mode,
+          limits: limits || undefined,
+          allowedIps,
+          signingSecret: signedRequests
+            ? keySecurityService.generateSigningSecret()
+            : undefined,
+        }
       );
       return res.status(201).json({
+        id: apiKey.createdKey.id,
         api_key: apiKey.key,
+        mode: apiKey.createdKey.mode,
         expires_at: apiKey.createdKey.expiresAt,
+        limits: formatLimits(apiKey.createdKey.limits),
+        allowed_ips: apiKey.createdKey.allowedIps,
+        signing_secret: apiKey.createdKey.signingSecret,
       });
     } catch (error) {
       console.error("Error creating API key:", error);
@@ -121,7 +393,7 @@ router.post(
  * /keys/rollover:
  *   post:
  *     summary: Rollover an expired API key
- *     description: Generate a new API key using the same permissions as an expired key
+ *     description: Generate a new API key using the same permissions and spending limits as an expired key. Requires a JWT.
  *     tags: [API Keys]
  *     security:
  *       - BearerAuth: []
@@ -173,6 +445,8 @@ router.post(
 router.post(
   "/rollover",
   authenticate,
+  requireJwt,
+  rateLimit(),
   async (req: AuthRequest, res: Response) => {
     try {
       const { expired_key_id, expiry } = req.body;
@@ -191,8 +465,12 @@ router.post(
         expiry
       );
       return res.status(200).json({
+        id: newApiKey.createdKey.id,
         api_key: newApiKey.key,
         expires_at: newApiKey.createdKey.expiresAt,
+        limits: formatLimits(newApiKey.createdKey.limits),
+        allowed_ips: newApiKey.createdKey.allowedIps,
+        signed_requests: !!newApiKey.createdKey.signingSecret,
       });
     } catch (error) {
       console.error("Error rolling over API key:", error);
@@ -268,6 +546,7 @@ router.post(
 router.post(
   "/revoke",
   authenticate,
+  rateLimit(),
   async (req: AuthRequest, res: Response) => {
     try {
       const { api_key } = req.body;
@@ -303,4 +582,635 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /keys/{id}/revoke:
+ *   post:
+ *     summary: Revoke an API key by ID
+ *     description: Revoke one of the user's keys using the ID from GET /keys, without needing the full key. Requires a JWT.
+ *     tags: [API Keys]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKeyInfo'
+ *       401:
+ *         description: Unauthorized - invalid or missing JWT token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Called with an API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: API key not found or already revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/:id/revoke",
+  authenticate,
+  requireJwt,
+  rateLimit(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const key = await keyService.revokeKeyById(req.user!.id, req.params.id);
+      return res.status(200).json(formatKey(key));
+    } catch (error: any) {
+      if (error.message === "API key not found or already revoked") {
+        return res.status(404).json({
+          error: "not_found",
+          message: error.message,
+        });
+      }
+
+      console.error("Error revoking API key:", error);
+      return res.status(500).json({
+        error: "internal_server_error",
+        message: "Failed to revoke API key",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /keys/{id}/rollover:
+ *   post:
+ *     summary: Rollover an expired API key by ID
+ *     description: Same as POST /keys/rollover, using the ID from GET /keys instead of the full key. Requires a JWT.
+ *     tags: [API Keys]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - expiry
+ *             properties:
+ *               expiry:
+ *                 type: string
+ *                 enum: [1H, 1D, 1M, 1Y]
+ *                 example: 1M
+ *     responses:
+ *       200:
+ *         description: API key rolled over successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKey'
+ *       400:
+ *         description: Missing or invalid expiry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - invalid or missing JWT token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Called with an API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Key not found or already revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Key has not yet expired
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/:id/rollover",
+  authenticate,
+  requireJwt,
+  rateLimit(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { expiry } = req.body;
+
+      if (!expiry) {
+        return res.status(400).json({
+          error: "bad_request",
+          message: "Missing required field: expiry",
+        });
+      }
+
+      const newApiKey = await keyService.rolloverKeyById(
+        req.user!.id,
+        req.params.id,
+        expiry
+      );
+      return res.status(200).json({
+        id: newApiKey.createdKey.id,
+        api_key: newApiKey.key,
+        expires_at: newApiKey.createdKey.expiresAt,
+        limits: formatLimits(newApiKey.createdKey.limits),
+        allowed_ips: newApiKey.createdKey.allowedIps,
+        signed_requests: !!newApiKey.createdKey.signingSecret,
+      });
+    } catch (error: any) {
+      if (error.message === "Invalid expiry format") {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: error.message,
+        });
+      }
+
+      if (error.message === "Expired key not found or already revoked") {
+        return res.status(404).json({
+          error: "not_found",
+          message: error.message,
+        });
+      }
+
+      if (error.message === "Key has not yet expired") {
+        return res.status(409).json({
+          error: "invalid_state",
+          message: error.message,
+        });
+      }
+
+      console.error("Error rolling over API key:", error);
+      return res.status(500).json({
+        error: "internal_server_error",
+        message: "Failed to rollover API key",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /keys/{id}/rotate:
+ *   post:
+ *     summary: Rotate an active API key
+ *     description: Issue a replacement for a key before it expires. The replacement has the same name, mode, permissions and restrictions and links back to the old key, which keeps working for grace_hours (never past its own expiry) and is then revoked automatically. Requires a JWT.
+ *     tags: [API Keys]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - expiry
+ *             properties:
+ *               expiry:
+ *                 type: string
+ *                 enum: [1H, 1D, 1M, 1Y]
+ *                 description: Expiration time for the new key
+ *                 example: 1Y
+ *               grace_hours:
+ *                 type: integer
+ *                 minimum: 0
+ *                 description: How long the old key keeps working. Defaults to KEY_ROTATION_GRACE_HOURS; 0 revokes it at once.
+ *                 example: 48
+ *     responses:
+ *       201:
+ *         description: Replacement issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiKey'
+ *                 - type: object
+ *                   properties:
+ *                     rotated_from:
+ *                       type: string
+ *                       description: ID of the old key
+ *                     previous_key_grace_ends_at:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Missing or invalid expiry or grace_hours
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - invalid or missing JWT token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Called with an API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Key is not active or has already been rotated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/:id/rotate",
+  authenticate,
+  requireJwt,
+  rateLimit(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { expiry } = req.body;
+
+      if (!expiry) {
+        return res.status(400).json({
+          error: "bad_request",
+          message: "Missing required field: expiry",
+        });
+      }
+
+      const graceHours = keyRotationService.parseGraceHours(
+        req.body.grace_hours
+      );
+      const rotated = await keyRotationService.rotate(
+        req.user!.id,
+        req.params.id,
+        expiry,
+        graceHours
+      );
+      return res.status(201).json({
+        id: rotated.createdKey.id,
+        api_key: rotated.key,
+        mode: rotated.createdKey.mode,
+        expires_at: rotated.createdKey.expiresAt,
+        limits: formatLimits(rotated.createdKey.limits),
+        allowed_ips: rotated.createdKey.allowedIps,
+        signed_requests: !!rotated.createdKey.signingSecret,
+        rotated_from: rotated.previousKey.id,
+        previous_key_grace_ends_at: rotated.previousKey.graceEndsAt,
+      });
+    } catch (error: any) {
+      if (
+        error.message === "Invalid expiry format" ||
+        error.message?.startsWith("grace_hours must be")
+      ) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: error.message,
+        });
+      }
+
+      if (error.message === "API key not found") {
+        return res.status(404).json({
+          error: "not_found",
+          message: error.message,
+        });
+      }
+
+      if (
+        error.message === "Key has already been rotated" ||
+        error.message?.startsWith("Only active keys can be rotated")
+      ) {
+        return res.status(409).json({
+          error: "invalid_state",
+          message: error.message,
+        });
+      }
+
+      console.error("Error rotating API key:", error);
+      return res.status(500).json({
+        error: "internal_server_error",
+        message: "Failed to rotate API key",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /keys/limits:
+ *   post:
+ *     summary: Set an API key's spending limits
+ *     description: Replace the spending limits of an active API key, or remove them with limits set to null. Requires a JWT; a key cannot change its own limits.
+ *     tags: [API Keys]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - limits
+ *             properties:
+ *               api_key:
+ *                 type: string
+ *                 description: The API key to change
+ *                 example: sk_live_abc123def456...
+ *               key_id:
+ *                 type: string
+ *                 description: ID of the key to change, from GET /keys. Use instead of api_key.
+ *               limits:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/KeyLimits'
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Limits updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 name:
+ *                   type: string
+ *                   example: payment-processor
+ *                 limits:
+ *                   $ref: '#/components/schemas/KeyLimits'
+ *       400:
+ *         description: Missing API key or invalid limits
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - invalid or missing JWT token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Called with an API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: API key not found or already revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/limits",
+  authenticate,
+  requireJwt,
+  rateLimit(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { api_key, key_id } = req.body;
+
+      if ((!api_key && !key_id) || req.body.limits === undefined) {
+        return res.status(400).json({
+          error: "bad_request",
+          message: "Missing required fields: api_key or key_id, limits",
+        });
+      }
+
+      const key = await keyService.setLimits(
+        req.user!.id,
+        { apiKey: api_key, keyId: key_id },
+        keyService.parseLimits(req.body.limits) ?? null
+      );
+      return res.status(200).json({
+        name: key.name,
+        limits: formatLimits(key.limits),
+      });
+    } catch (error: any) {
+      if (isSettingsError(error)) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: error.message,
+        });
+      }
+
+      if (error.message === "API key not found or already revoked") {
+        return res.status(404).json({
+          error: "not_found",
+          message: error.message,
+        });
+      }
+
+      console.error("Error setting API key limits:", error);
+      return res.status(500).json({
+        error: "internal_server_error",
+        message: "Failed to set API key limits",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /keys/security:
+ *   post:
+ *     summary: Set an API key's IP allowlist and request signing
+ *     description: Restrict the IPs an API key may be used from (allowed_ips null removes the allowlist), and turn signed requests on or off. Turning signing on issues a new signing secret, returned once; the previous secret stops working. Requires a JWT.
+ *     tags: [API Keys]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               api_key:
+ *                 type: string
+ *                 example: sk_live_abc123def456...
+ *               key_id:
+ *                 type: string
+ *                 description: ID of the key to change, from GET /keys. Use instead of api_key.
+ *               allowed_ips:
+ *                 type: array
+ *                 nullable: true
+ *                 items:
+ *                   type: string
+ *                 example: ["203.0.113.7", "10.0.0.0/8"]
+ *               signed_requests:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Settings updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 name:
+ *                   type: string
+ *                 allowed_ips:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 signed_requests:
+ *                   type: boolean
+ *                 signing_secret:
+ *                   type: string
+ *                   description: Only present when signing was just turned on
+ *       400:
+ *         description: Missing API key or invalid settings
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized - invalid or missing JWT token
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Called with an API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: API key not found or already revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/security",
+  authenticate,
+  requireJwt,
+  rateLimit(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { api_key, key_id, allowed_ips, signed_requests } = req.body;
+
+      if (!api_key && !key_id) {
+        return res.status(400).json({
+          error: "bad_request",
+          message: "Missing required field: api_key or key_id",
+        });
+      }
+
+      if (
+        signed_requests !== undefined &&
+        typeof signed_requests !== "boolean"
+      ) {
+        throw new Error("signed_requests must be a boolean");
+      }
+
+      const { key, signingSecret } = await keyService.setSecurity(
+        req.user!.id,
+        { apiKey: api_key, keyId: key_id },
+        {
+          allowedIps:
+            allowed_ips === undefined || allowed_ips === null
+              ? allowed_ips
+              : keySecurityService.parseAllowedIps(allowed_ips),
+          signedRequests: signed_requests,
+        }
+      );
+      return res.status(200).json({
+        name: key.name,
+        allowed_ips: key.allowedIps,
+        signed_requests: !!key.signingSecret,
+        signing_secret: signingSecret,
+      });
+    } catch (error: any) {
+      if (isSettingsError(error)) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: error.message,
+        });
+      }
+
+      if (error.message === "API key not found or already revoked") {
+        return res.status(404).json({
+          error: "not_found",
+          message: error.message,
+        });
+      }
+
+      console.error("Error updating API key security:", error);
+      return res.status(500).json({
+        error: "internal_server_error",
+        message: "Failed to update API key security",
+      });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,197 @@
+import { Router, Request, Response } from "express";
+import sandboxProviderService from "../services/sandboxProvider.service";
+import { ITransaction } from "../models/Transaction";
+import {
+  authenticate,
+  AuthRequest,
+  requirePermission,
+  requireTestMode,
+} from "../middleware/auth.middleware";
+import { rateLimit } from "../middleware/rateLimit.middleware";
+
+const router = Router();
+
+const formatDeposit = (deposit: ITransaction) => ({
+  reference: deposit.reference,
+  amount: deposit.amount,
+  currency: deposit.currency,
+  status: deposit.status,
+  paid_at: deposit.paidAt,
+});
+
+/**
+ * @swagger
+ * /sandbox/checkout/{reference}:
+ *   get:
+ *     summary: Complete a sandbox checkout
+ *     description: The authorization_url returned for deposits made with a test-mode key. Stands in for the Paystack checkout page and settles the deposit according to its amount. Amounts whose last two digits (in minor units) are 01 are declined, 02 leaves the deposit pending, and any other amount succeeds.
+ *     tags: [Sandbox]
+ *     parameters:
+ *       - in: path
+ *         name: reference
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Checkout completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SandboxDeposit'
+ *       404:
+ *         description: Sandbox deposit not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/checkout/:reference",
+  rateLimit(),
+  async (req: Request, res: Response) => {
+    try {
+      const deposit = await sandboxProviderService.checkout(
+        req.params.reference
+      );
+      return res.status(200).json(formatDeposit(deposit));
+    } catch (error: any) {
+      if (error.message === "Sandbox deposit not found") {
+        return res.status(404).json({
+          error: "not_found",
+          message: error.message,
+        });
+      }
+
+      console.error("Sandbox checkout error:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "Failed to complete sandbox checkout",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /sandbox/deposits/{reference}/simulate:
+ *   post:
+ *     summary: Simulate a sandbox deposit outcome
+ *     description: Force a sandbox deposit to succeed or fail, whatever its amount. Succeeding credits the sandbox wallet and sends deposit.succeeded with livemode false. Requires a test-mode API key with deposit permission.
+ *     tags: [Sandbox]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reference
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - outcome
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [success, failed]
+ *     responses:
+ *       200:
+ *         description: Outcome applied
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SandboxDeposit'
+ *       400:
+ *         description: Invalid outcome
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Not a test-mode key, or insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Sandbox deposit not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Deposit has already succeeded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/deposits/:reference/simulate",
+  authenticate,
+  requireTestMode,
+  requirePermission("deposit"),
+  rateLimit("deposit"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const deposit = await sandboxProviderService.simulate(
+        req.user!.id,
+        req.params.reference,
+        req.body.outcome
+      );
+      return res.status(200).json(formatDeposit(deposit));
+    } catch (error: any) {
+      if (error.message?.startsWith("Outcome must be one of")) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: error.message,
+        });
+      }
+
+      if (error.message === "Sandbox deposit not found") {
+        return res.status(404).json({
+          error: "not_found",
+          message: error.message,
+        });
+      }
+
+      if (error.message === "Deposit has already succeeded") {
+        return res.status(409).json({
+          error: "invalid_state",
+          message: error.message,
+        });
+      }
+
+      console.error("Sandbox simulate error:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "Failed to simulate deposit outcome",
+      });
+    }
+  }
+);
+
+export default router;
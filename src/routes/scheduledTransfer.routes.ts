@@ -0,0 +1,663 @@
+import { Router, Response } from "express";
+import scheduledTransferService from "../services/scheduledTransfer.service";
+import beneficiaryService from "../services/beneficiary.service";
+import walletAccountService from "../services/walletAccount.service";
+import { IScheduledTransfer } from "../models/ScheduledTransfer";
+import {
+  authenticate,
+  AuthRequest,
+  requirePermission,
+} from "../middleware/auth.middleware";
+import { rateLimit } from "../middleware/rateLimit.middleware";
+
+const router = Router();
+
+const INVALID_INPUT_MESSAGES = [
+  "Amount must be a positive number (in kobo)",
+  "Unsupported currency",
+  "Frequency must be one of once, daily, weekly or monthly",
+  "Start date must be in the future",
+  "End date must be after the start date",
+  "Max occurrences must be a positive whole number",
+  "Beneficiary is not a wallet beneficiary",
+  "You cannot transfer to yourself",
+];
+
+const parseDate = (value: unknown) =>
+  value === undefined || value === null || value === ""
+    ? undefined
+    : new Date(value as string);
+
+const formatSchedule = (schedule: IScheduledTransfer) => ({
+  id: schedule.id,
+  wallet_number: schedule.recipientWalletNumber,
+  amount: schedule.amount,
+  currency: schedule.currency,
+  frequency: schedule.frequency,
+  start_at: schedule.startAt,
+  end_at: schedule.endAt,
+  max_occurrences: schedule.maxOccurrences,
+  status: schedule.status,
+  next_run_at: schedule.status === "active" ? schedule.nextRunAt : undefined,
+  success_count: schedule.successCount,
+  failure_count: schedule.failureCount,
+  last_run_at: schedule.lastRunAt,
+  last_error: schedule.lastError,
+  last_reference: schedule.lastReference,
+  note: schedule.note,
+  created_at: schedule.createdAt,
+});
+
+const handleScheduleError = (
+  error: any,
+  res: Response,
+  fallbackMessage: string
+) => {
+  if (INVALID_INPUT_MESSAGES.includes(error.message)) {
+    return res.status(400).json({
+      error: "invalid_input",
+      message: error.message,
+    });
+  }
+
+  if (
+    error.message ===
+    "Cross-currency transfers are not supported; convert the funds first"
+  ) {
+    return res.status(400).json({
+      error: "currency_mismatch",
+      message: error.message,
+    });
+  }
+
+  if (
+    error.message === "Scheduled transfer not found" ||
+    error.message === "Beneficiary not found"
+  ) {
+    return res.status(404).json({
+      error: "not_found",
+      message: error.message,
+    });
+  }
+
+  if (error.message === "Recipient wallet not found") {
+    return res.status(404).json({
+      error: "wallet_not_found",
+      message: error.message,
+    });
+  }
+
+  if (
+    error.message === "Only active or paused schedules can be changed" ||
+    error.message === "Only active schedules can be paused" ||
+    error.message === "Only paused schedules can be resumed" ||
+    error.message.startsWith("The API key this schedule was created with")
+  ) {
+    return res.status(409).json({
+      error: "invalid_state",
+      message: error.message,
+    });
+  }
+
+  if (error.message?.startsWith("API key limit exceeded")) {
+    return res.status(403).json({
+      error: "limit_exceeded",
+      message: error.message,
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    error: "internal_error",
+    message: fallbackMessage,
+  });
+};
+
+/**
+ * @swagger
+ * /wallet/scheduled-transfers:
+ *   get:
+ *     summary: List scheduled transfers
+ *     tags: [Scheduled Transfers]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Scheduled transfers retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ScheduledTransfer'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/",
+  authenticate,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const schedules = await scheduledTransferService.list(req.user!.id);
+      return res.status(200).json(schedules.map(formatSchedule));
+    } catch (error) {
+      return handleScheduleError(
+        error,
+        res,
+        "Failed to retrieve scheduled transfers"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/scheduled-transfers:
+ *   post:
+ *     summary: Schedule a transfer
+ *     description: Schedule a one-off transfer at a date, or a daily, weekly or monthly transfer that ends at end_at or after max_occurrences (or runs until cancelled). Each run goes through the normal transfer logic and appears in transaction history with the schedule's ID. Failed runs (for example, insufficient balance) are retried according to the server's retry policy.
+ *     tags: [Scheduled Transfers]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *               - frequency
+ *               - start_at
+ *             properties:
+ *               wallet_number:
+ *                 type: string
+ *                 description: Recipient's wallet number. Required unless beneficiary_id is given.
+ *                 example: "4566678954356"
+ *               beneficiary_id:
+ *                 type: string
+ *                 description: ID of a saved wallet beneficiary to pay instead of wallet_number
+ *               amount:
+ *                 type: number
+ *                 description: Amount per run in the currency's minor unit
+ *                 example: 25000000
+ *               currency:
+ *                 type: string
+ *                 enum: [NGN, GHS, KES, ZAR, USD]
+ *                 default: NGN
+ *               frequency:
+ *                 type: string
+ *                 enum: [once, daily, weekly, monthly]
+ *               start_at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: First (or only) run
+ *                 example: "2026-01-01T09:00:00Z"
+ *               end_at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: No runs after this time
+ *               max_occurrences:
+ *                 type: integer
+ *                 description: Stop after this many runs
+ *               note:
+ *                 type: string
+ *                 example: Rent
+ *     responses:
+ *       201:
+ *         description: Transfer scheduled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransfer'
+ *       400:
+ *         description: Invalid input or currency mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions, or the API key's spending limits do not allow this transfer (limit_exceeded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Recipient wallet or beneficiary not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/",
+  authenticate,
+  requirePermission("transfer"),
+  rateLimit("transfer"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const {
+        wallet_number,
+        beneficiary_id,
+        amount,
+        frequency,
+        max_occurrences,
+        note,
+      } = req.body;
+
+      let recipientWalletNumber = wallet_number;
+      if (beneficiary_id) {
+        const beneficiary = await beneficiaryService.get(
+          userId,
+          beneficiary_id
+        );
+        if (beneficiary.type !== "wallet") {
+          throw new Error("Beneficiary is not a wallet beneficiary");
+        }
+        recipientWalletNumber = beneficiary.walletNumber;
+      }
+
+      const schedule = await scheduledTransferService.create(userId, {
+        recipientWalletNumber,
+        amount,
+        currency: walletAccountService.parseCurrency(req.body.currency),
+        frequency,
+        startAt: parseDate(req.body.start_at),
+        endAt: parseDate(req.body.end_at),
+        maxOccurrences: max_occurrences,
+        note,
+        apiKeyId: req.apiKey?.id,
+      });
+
+      return res.status(201).json(formatSchedule(schedule));
+    } catch (error) {
+      return handleScheduleError(error, res, "Failed to schedule transfer");
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/scheduled-transfers/{id}:
+ *   get:
+ *     summary: Get a scheduled transfer
+ *     tags: [Scheduled Transfers]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Scheduled transfer ID
+ *     responses:
+ *       200:
+ *         description: Scheduled transfer retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransfer'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Scheduled transfer not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/:id",
+  authenticate,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const schedule = await scheduledTransferService.get(
+        req.user!.id,
+        req.params.id
+      );
+      return res.status(200).json(formatSchedule(schedule));
+    } catch (error) {
+      return handleScheduleError(
+        error,
+        res,
+        "Failed to retrieve scheduled transfer"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/scheduled-transfers/{id}:
+ *   patch:
+ *     summary: Update a scheduled transfer
+ *     description: Change the amount, end conditions or note of an active or paused schedule. Changes apply from the next run.
+ *     tags: [Scheduled Transfers]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Scheduled transfer ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *               end_at:
+ *                 type: string
+ *                 format: date-time
+ *               max_occurrences:
+ *                 type: integer
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Scheduled transfer updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransfer'
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Scheduled transfer not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Schedule has already finished or been cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch(
+  "/:id",
+  authenticate,
+  requirePermission("transfer"),
+  rateLimit("transfer"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const schedule = await scheduledTransferService.update(
+        req.user!.id,
+        req.params.id,
+        {
+          amount: req.body.amount,
+          endAt: parseDate(req.body.end_at),
+          maxOccurrences: req.body.max_occurrences,
+          note: req.body.note,
+        }
+      );
+      return res.status(200).json(formatSchedule(schedule));
+    } catch (error) {
+      return handleScheduleError(
+        error,
+        res,
+        "Failed to update scheduled transfer"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/scheduled-transfers/{id}/pause:
+ *   post:
+ *     summary: Pause a scheduled transfer
+ *     tags: [Scheduled Transfers]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Scheduled transfer ID
+ *     responses:
+ *       200:
+ *         description: Scheduled transfer paused
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransfer'
+ *       404:
+ *         description: Scheduled transfer not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Schedule is not active
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/:id/pause",
+  authenticate,
+  requirePermission("transfer"),
+  rateLimit("transfer"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const schedule = await scheduledTransferService.pause(
+        req.user!.id,
+        req.params.id
+      );
+      return res.status(200).json(formatSchedule(schedule));
+    } catch (error) {
+      return handleScheduleError(
+        error,
+        res,
+        "Failed to pause scheduled transfer"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/scheduled-transfers/{id}/resume:
+ *   post:
+ *     summary: Resume a paused scheduled transfer
+ *     description: Recurring runs that fell due while the schedule was paused are skipped. An overdue one-off transfer runs straight away.
+ *     tags: [Scheduled Transfers]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Scheduled transfer ID
+ *     responses:
+ *       200:
+ *         description: Scheduled transfer resumed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransfer'
+ *       404:
+ *         description: Scheduled transfer not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Schedule is not paused, or its API key can no longer make transfers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/:id/resume",
+  authenticate,
+  requirePermission("transfer"),
+  rateLimit("transfer"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const schedule = await scheduledTransferService.resume(
+        req.user!.id,
+        req.params.id
+      );
+      return res.status(200).json(formatSchedule(schedule));
+    } catch (error) {
+      return handleScheduleError(
+        error,
+        res,
+        "Failed to resume scheduled transfer"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/scheduled-transfers/{id}:
+ *   delete:
+ *     summary: Cancel a scheduled transfer
+ *     description: Stop all future runs. Past runs and their transactions are kept.
+ *     tags: [Scheduled Transfers]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Scheduled transfer ID
+ *     responses:
+ *       200:
+ *         description: Scheduled transfer cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScheduledTransfer'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Scheduled transfer not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Schedule has already finished or been cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  "/:id",
+  authenticate,
+  requirePermission("transfer"),
+  rateLimit("transfer"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const schedule = await scheduledTransferService.cancel(
+        req.user!.id,
+        req.params.id
+      );
+      return res.status(200).json(formatSchedule(schedule));
+    } catch (error) {
+      return handleScheduleError(
+        error,
+        res,
+        "Failed to cancel scheduled transfer"
+      );
+    }
+  }
+);
+
+export default router;
@@ -1,12 +1,41 @@
-import { Router, Request, Response } from "express";
-import paystackService from "../services/wallet.service";
-import { Transaction } from "../models/Transaction";
-import { Wallet } from "../models/Wallet";
+import { Router, Request, Response, NextFunction } from "express";
+import paystackService, {
+  PAYSTACK_CHANNELS,
+  PaystackChannel,
+  PaystackWebhookEvent,
+} from "../services/wallet.service";
+import ledgerService from "../services/ledger.service";
+import transferService from "../services/transfer.service";
+import withdrawalService from "../services/withdrawal.service";
+import beneficiaryService from "../services/beneficiary.service";
+import transactionService from "../services/transaction.service";
+import walletAccountService from "../services/walletAccount.service";
+import statementService from "../services/statement.service";
+import webhookService from "../services/webhook.service";
+import cardService from "../services/card.service";
+import depositSettlementService from "../services/depositSettlement.service";
+import virtualAccountService from "../services/virtualAccount.service";
+import sandboxService from "../services/sandbox.service";
+import sandboxProviderService from "../services/sandboxProvider.service";
+import {
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+} from "../models/Transaction";
+import { IVirtualAccount } from "../models/VirtualAccount";
 import {
   authenticate,
   AuthRequest,
+  requireLiveMode,
   requirePermission,
 } from "../middleware/auth.middleware";
+import { rateLimit } from "../middleware/rateLimit.middleware";
+import {
+  idempotency,
+  idempotentReference,
+} from "../middleware/idempotency.middleware";
+import { RawBodyRequest } from "../middleware/rawBody.middleware";
+import config from "../config";
 
 const router = Router();
 
@@ -15,11 +44,13 @@ const router = Router();
  * /wallet/deposit:
  *   post:
  *     summary: Initiate a Paystack deposit
- *     description: Initialize a deposit transaction with Paystack and get payment link
+ *     description: Initialize a deposit transaction with Paystack and get payment link. Pass card_id to charge a saved card instead; the wallet is credited straight away when the charge succeeds, with no redirect.
  *     tags: [Wallet]
  *     security:
  *       - BearerAuth: []
  *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -31,8 +62,27 @@ const router = Router();
  *             properties:
  *               amount:
  *                 type: number
- *                 description: Amount to deposit in kobo (1 NGN = 100 kobo)
+ *                 description: Amount to deposit in the currency's minor unit (1 NGN = 100 kobo, 1 GHS = 100 pesewas, 1 KES or ZAR = 100 cents)
  *                 example: 5000
+ *               currency:
+ *                 type: string
+ *                 enum: [NGN, GHS, KES, ZAR, USD]
+ *                 default: NGN
+ *                 description: Currency to deposit. The wallet for this currency is opened if the user does not have one yet.
+ *               card_id:
+ *                 type: string
+ *                 description: ID of a saved card (see GET /wallet/cards) to charge without a redirect
+ *               channels:
+ *                 type: array
+ *                 description: Payment channels to offer on the Paystack checkout (redirect deposits only). Defaults to every channel enabled on the Paystack account.
+ *                 items:
+ *                   type: string
+ *                   enum: [card, bank, ussd, qr, mobile_money, bank_transfer, eft, apple_pay]
+ *                 example: [card, bank_transfer]
+ *               metadata:
+ *                 type: object
+ *                 description: Custom fields passed to Paystack with the transaction (redirect deposits only). user_id is always set to the depositing user.
+ *                 example: { "order_id": "ORD-1042" }
  *     responses:
  *       201:
  *         description: Deposit initiated successfully
@@ -44,11 +94,23 @@ const router = Router();
  *                 reference:
  *                   type: string
  *                   example: PS_1234567890_abc
+ *                 currency:
+ *                   type: string
+ *                   example: NGN
  *                 authorization_url:
  *                   type: string
+ *                   description: Paystack checkout link (redirect deposits only)
  *                   example: https://checkout.paystack.com/xyz
+ *                 status:
+ *                   type: string
+ *                   enum: [pending, success, failed]
+ *                   description: Deposit status (saved card deposits only). A pending charge is settled by the webhook.
+ *                 gateway_response:
+ *                   type: string
+ *                   description: Paystack's message for the card charge (saved card deposits only)
+ *                   example: Approved
  *       400:
- *         description: Invalid amount
+ *         description: Invalid amount, currency, channels or metadata, or a card that cannot be reused
  *         content:
  *           application/json:
  *             schema:
@@ -59,12 +121,30 @@ const router = Router();
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       402:
+ *         description: Paystack could not initialize the payment or charge the card
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       403:
  *         description: Insufficient permissions (API key without deposit permission)
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Saved card not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Idempotency-Key reused with a different body, still in progress, or already paid by an abandoned run
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       500:
  *         description: Server error
  *         content:
@@ -76,6 +156,8 @@ router.post(
   "/deposit",
   authenticate,
   requirePermission("deposit"),
+  rateLimit("deposit"),
+  idempotency,
   async (req: AuthRequest, res: Response) => {
     try {
       const { amount } = req.body;
@@ -91,27 +173,137 @@ router.post(
         });
       }
 
-      // Generate unique reference
-      const reference = paystackService.generateReference();
+      // Amounts are stored in minor units, so they must be whole numbers
+      if (!Number.isInteger(amount)) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: "Amount must be a whole number of minor units",
+        });
+      }
 
-      // Check if transaction with this reference already exists (idempotency)
-      const existingTransaction = await Transaction.findOne({ reference });
-      if (existingTransaction) {
-        return res.status(200).json({
-          reference: existingTransaction.reference,
-          authorization_url: existingTransaction.paystackAuthorizationUrl,
-          message: "Transaction already exists",
+      const { channels, metadata } = req.body;
+
+      if (
+        channels !== undefined &&
+        (!Array.isArray(channels) ||
+          channels.length === 0 ||
+          !channels.every((channel) => PAYSTACK_CHANNELS.includes(channel)))
+      ) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: `Channels must be a list of: ${PAYSTACK_CHANNELS.join(
+            ", "
+          )}`,
+        });
+      }
+
+      if (
+        metadata !== undefined &&
+        (typeof metadata !== "object" ||
+          metadata === null ||
+          Array.isArray(metadata))
+      ) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: "Metadata must be an object",
+        });
+      }
+
+      let currency;
+      try {
+        currency = walletAccountService.parseCurrency(req.body.currency);
+      } catch (error: any) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: error.message,
+        });
+      }
+
+      await walletAccountService.open(userId, currency);
+
+      if (req.body.card_id) {
+        let result;
+        try {
+          result = await cardService.charge(
+            userId,
+            req.body.card_id,
+            amount,
+            currency,
+            idempotentReference(req, "PS")?.toUpperCase()
+          );
+        } catch (error: any) {
+          // The request was run before by a process that died after paying
+          if (req.idempotencyId && error.code === 11000) {
+            return res.status(409).json({
+              error: "already_processed",
+              message:
+                "A payment has already been made for this Idempotency-Key",
+            });
+          }
+
+          if (error.message === "Card not found") {
+            return res.status(404).json({
+              error: "not_found",
+              message: error.message,
+            });
+          }
+          if (error.message === "This card cannot be charged again") {
+            return res.status(400).json({
+              error: "invalid_input",
+              message: error.message,
+            });
+          }
+          if (error.message?.startsWith("Paystack")) {
+            console.error("Paystack card charge error:", error);
+            return res.status(402).json({
+              error: "payment_initiation_failed",
+              message: error.message,
+            });
+          }
+          throw error;
+        }
+
+        // Settle straight away; the charge.success webhook that follows is
+        // then a no-op
+        const { transaction, charge } = result;
+        if (charge.status === "success") {
+          await depositSettlementService.credit({
+            ...charge,
+            status: "success",
+          });
+        } else if (charge.status === "failed") {
+          await depositSettlementService.fail(transaction.reference);
+        }
+
+        const settled = await Transaction.findById(transaction._id);
+        return res.status(201).json({
+          reference: transaction.reference,
+          currency: transaction.currency,
+          status: settled?.status ?? transaction.status,
+          gateway_response: charge.gateway_response,
         });
       }
 
-      // Initialize transaction with Paystack
+      // Generate unique reference
+      const reference = paystackService.generateReference();
+
+      // Initialize transaction with Paystack, or with the sandbox provider
+      // for test-mode keys
       let paystackResponse;
       try {
-        paystackResponse = await paystackService.initializeTransaction(
-          amount,
-          userEmail,
-          reference
-        );
+        paystackResponse = sandboxService.isSandbox(userId)
+          ? await sandboxProviderService.initializeTransaction(reference)
+          : await paystackService.initializeTransaction(
+              amount,
+              userEmail,
+              reference,
+              currency,
+              {
+                callbackUrl: `${config.appBaseUrl}/wallet/paystack/callback`,
+                channels: channels as PaystackChannel[] | undefined,
+                metadata: { ...metadata, user_id: userId },
+              }
+            );
       } catch (error) {
         console.error("Paystack initialization error:", error);
         return res.status(402).json({
@@ -128,6 +320,7 @@ router.post(
         const transaction = new Transaction({
           reference: paystackResponse.reference,
           amount,
+          currency,
           type: "deposit",
           status: "pending",
           paystackAuthorizationUrl: paystackResponse.authorization_url,
@@ -138,6 +331,7 @@ router.post(
 
         return res.status(201).json({
           reference: transaction.reference,
+          currency: transaction.currency,
           authorization_url: transaction.paystackAuthorizationUrl,
         });
       } catch (error) {
@@ -157,12 +351,31 @@ router.post(
   }
 );
 
+/**
+ * Rate limits webhook deliveries whose signature does not verify, by client
+ * IP, so forged posts cannot flood the event store. Correctly signed
+ * deliveries are never limited: Paystack sends from a few addresses.
+ */
+const limitUnsignedWebhooks = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const signature = req.headers["x-paystack-signature"] as string | undefined;
+  const rawBody = (req as RawBodyRequest).rawBody ?? JSON.stringify(req.body);
+
+  if (signature && paystackService.verifyWebhookSignature(rawBody, signature)) {
+    return next();
+  }
+  return rateLimit()(req, res, next);
+};
+
 /**
  * @swagger
  * /wallet/paystack/webhook:
  *   post:
  *     summary: Paystack webhook handler
- *     description: Receives and processes Paystack webhook events (charge.success) to update wallet balance
+ *     description: Stores every Paystack webhook delivery and applies charge, refund, dispute and transfer events to transactions and wallet balances. Each event is applied at most once, so redelivered events are acknowledged without changing balances again.
  *     tags: [Wallet]
  *     requestBody:
  *       required: true
@@ -195,76 +408,144 @@ router.post(
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.post("/paystack/webhook", async (req: Request, res: Response) => {
-  try {
-    const signature = req.headers["x-paystack-signature"] as string;
-    // const webhookSecret = process.env.PAYSTACK_WEBHOOK_SECRET;
+router.post(
+  "/paystack/webhook",
+  limitUnsignedWebhooks,
+  async (req: Request, res: Response) => {
+    try {
+      const signature = req.headers["x-paystack-signature"] as
+        | string
+        | undefined;
+      const rawBody =
+        (req as RawBodyRequest).rawBody ?? JSON.stringify(req.body);
 
-    // Verify signature in production
-    if (!signature) {
-      return res.status(400).json({
-        error: "invalid_request",
-        message: "Missing Paystack signature",
-      });
-    }
+      const isValid =
+        !!signature &&
+        paystackService.verifyWebhookSignature(rawBody, signature);
 
-    const payload = JSON.stringify(req.body);
-    const isValid = paystackService.verifyWebhookSignature(payload, signature);
+      // Every delivery is stored, including rejected ones, for auditing
+      const webhookEvent = await webhookService.record(
+        rawBody,
+        req.body as PaystackWebhookEvent,
+        signature,
+        isValid
+      );
 
-    if (!isValid) {
-      console.warn("Invalid webhook signature");
-      return res.status(400).json({
-        error: "invalid_signature",
-        message: "Invalid webhook signature",
-      });
-    }
+      if (!signature) {
+        return res.status(400).json({
+          error: "invalid_request",
+          message: "Missing Paystack signature",
+        });
+      }
 
-    // if (
-    //   !webhookSecret ||
-    //   webhookSecret === "your_paystack_webhook_secret_here"
-    // ) {
-    //   console.log("⚠️  DEV MODE: Skipping webhook signature verification");
-    // } else {
-    // }
+      if (!isValid) {
+        console.warn("Invalid webhook signature");
+        return res.status(400).json({
+          error: "invalid_signature",
+          message: "Invalid webhook signature",
+        });
+      }
 
-    // Process webhook event
-    const event = req.body;
+      const processed = await webhookService.process(webhookEvent);
 
-    if (event.event === "charge.success") {
-      const { reference, status, amount, paid_at } = event.data;
+      if (processed.status === "failed") {
+        console.error(
+          `Webhook event ${processed.id} failed to process:`,
+          processed.error
+        );
+        return res.status(500).json({
+          error: "internal_error",
+          message: "Failed to process webhook",
+        });
+      }
 
-      const transaction = await Transaction.findOne({ reference });
+      return res.status(200).json({
+        status: true,
+      });
+    } catch (error) {
+      console.error("Webhook processing error:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "Failed to process webhook",
+      });
+    }
+  }
+);
 
-      if (transaction) {
-        const userId = transaction.userId;
-        const wallet = await Wallet.findOne({ userId });
+/**
+ * Send the browser back to the frontend after a Paystack checkout
+ */
+const redirectToFrontend = (
+  res: Response,
+  reference: string | undefined,
+  status: string
+) => {
+  const url = new URL(
+    status === "success" ? config.frontendSuccessUrl : config.frontendFailureUrl
+  );
+  if (reference) {
+    url.searchParams.set("reference", reference);
+  }
+  url.searchParams.set("status", status);
+  return res.redirect(302, url.toString());
+};
 
-        if (wallet) {
-          wallet.balance = wallet.balance + amount;
-          await wallet.save();
-        }
-        transaction.status = status === "success" ? "success" : "failed";
-        transaction.amount = amount;
-        if (paid_at) {
-          transaction.paidAt = new Date(paid_at);
-        }
-        await transaction.save();
+/**
+ * @swagger
+ * /wallet/paystack/callback:
+ *   get:
+ *     summary: Paystack checkout callback
+ *     description: Paystack redirects the customer's browser here after checkout. The deposit is verified with Paystack and settled (credited once, however often the callback, webhook or status check run), then the browser is redirected to FRONTEND_SUCCESS_URL, or FRONTEND_FAILURE_URL if the deposit failed or is not settled yet, with reference and status query parameters.
+ *     tags: [Wallet]
+ *     parameters:
+ *       - in: query
+ *         name: reference
+ *         schema:
+ *           type: string
+ *         description: Deposit reference (added by Paystack)
+ *       - in: query
+ *         name: trxref
+ *         schema:
+ *           type: string
+ *         description: Same as reference (added by Paystack)
+ *     responses:
+ *       302:
+ *         description: Redirect to the frontend success or failure URL
+ */
+router.get("/paystack/callback", async (req: Request, res: Response) => {
+  const reference =
+    typeof req.query.reference === "string"
+      ? req.query.reference
+      : typeof req.query.trxref === "string"
+      ? req.query.trxref
+      : undefined;
 
-        console.log(`Transaction ${reference} updated to ${status}`);
-      } else {
-        console.warn(`Transaction with reference ${reference} not found`);
-      }
+  try {
+    if (!reference) {
+      return redirectToFrontend(res, undefined, "failed");
     }
 
-    return res.status(200).json({
-      status: true,
+    const transaction = await Transaction.findOne({
+      reference,
+      type: "deposit",
     });
+    if (!transaction) {
+      return redirectToFrontend(res, reference, "failed");
+    }
+
+    if (transaction.status === "pending") {
+      await depositSettlementService.syncWithPaystack(transaction);
+    }
+
+    const settled = await Transaction.findById(transaction._id);
+    return redirectToFrontend(
+      res,
+      reference,
+      settled?.status ?? transaction.status
+    );
   } catch (error) {
-    console.error("Webhook processing error:", error);
-    return res.status(500).json({
-      error: "internal_error",
-      message: "Failed to process webhook",
-    });
+    console.error("Error handling Paystack callback:", error);
+    return redirectToFrontend(res, reference, "pending");
   }
 });
 
@@ -273,7 +554,7 @@ router.post("/paystack/webhook", async (req: Request, res: Response) => {
  * /wallet/deposit/{reference}/status:
  *   get:
  *     summary: Check deposit transaction status
- *     description: Get the current status of a deposit transaction (does not credit wallet, only webhook does)
+ *     description: Get the current status of a deposit transaction. A pending deposit (or any deposit with refresh=true) is verified with Paystack, and a successful payment is credited to the wallet exactly once, whether this check or the webhook sees it first.
  *     tags: [Wallet]
  *     security:
  *       - BearerAuth: []
@@ -307,6 +588,8 @@ router.post("/paystack/webhook", async (req: Request, res: Response) => {
  *                   enum: [pending, success, failed]
  *                 amount:
  *                   type: number
+ *                 currency:
+ *                   type: string
  *       400:
  *         description: Invalid request
  *         content:
@@ -336,6 +619,7 @@ router.get(
   "/deposit/:reference/status",
   authenticate,
   requirePermission("read"),
+  rateLimit("read"),
   async (req: AuthRequest, res: Response) => {
     try {
       const { reference } = req.params;
@@ -368,20 +652,21 @@ router.get(
         });
       }
 
-      // If refresh is requested or status is pending, verify with Paystack
-      if (refresh === "true" || transaction.status === "pending") {
+      // If refresh is requested or status is pending, verify with Paystack.
+      // A payment seen here first credits the wallet, exactly as the webhook
+      // would.
+      if (
+        transaction.type === "deposit" &&
+        (refresh === "true" || transaction.status === "pending")
+      ) {
         try {
-          const paystackData = await paystackService.verifyTransaction(
-            reference
+          const result = await depositSettlementService.syncWithPaystack(
+            transaction
           );
-
-          // Update transaction with latest data from Paystack
-          transaction.status = paystackData.status;
-          transaction.amount = paystackData.amount;
-          if (paystackData.paid_at) {
-            transaction.paidAt = new Date(paystackData.paid_at);
+          if (result !== "unchanged") {
+            transaction =
+              (await Transaction.findById(transaction._id)) ?? transaction;
           }
-          await transaction.save();
         } catch (error) {
           console.error("Failed to verify with Paystack:", error);
           // Continue with database status if verification fails
@@ -392,6 +677,7 @@ router.get(
         reference: transaction.reference,
         status: transaction.status,
         amount: transaction.amount,
+        currency: transaction.currency,
       });
     } catch (error) {
       console.error("Error checking transaction status:", error);
@@ -405,26 +691,23 @@ router.get(
 
 /**
  * @swagger
- * /wallet/balance:
+ * /wallet/wallets:
  *   get:
- *     summary: Get wallet balance
- *     description: Retrieve the current balance of the authenticated user's wallet
+ *     summary: List wallets
+ *     description: Retrieve the authenticated user's wallets, one per currency
  *     tags: [Wallet]
  *     security:
  *       - BearerAuth: []
  *       - ApiKeyAuth: []
  *     responses:
  *       200:
- *         description: Wallet balance retrieved successfully
+ *         description: Wallets retrieved successfully
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 balance:
- *                   type: number
- *                   description: Balance in kobo
- *                   example: 15000
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Wallet'
  *       401:
  *         description: Unauthorized
  *         content:
@@ -445,26 +728,22 @@ router.get(
  *               $ref: '#/components/schemas/Error'
  */
 router.get(
-  "/balance",
+  "/wallets",
   authenticate,
   requirePermission("read"),
+  rateLimit("read"),
   async (req: AuthRequest, res: Response) => {
     try {
-      const userId = req.user!.id;
-
-      const hasWallet = await Wallet.findOne({ userId: userId });
-      if (hasWallet) {
-        return res.status(200).json({
-          balance: hasWallet.balance,
-        });
-      }
-
-      return res.status(404).json({
-        error: "wallet_not_found",
-        message: "Wallet not found for this user",
-      });
+      const wallets = await walletAccountService.list(req.user!.id);
+      return res.status(200).json(
+        wallets.map((wallet) => ({
+          wallet_number: wallet.walletNumber,
+          currency: wallet.currency,
+          balance: wallet.balance,
+        }))
+      );
     } catch (error) {
-      console.error("Unexpected error in getting user balance:", error);
+      console.error("Unexpected error in listing wallets:", error);
       return res.status(500).json({
         error: "internal_error",
         message: "An unexpected error occurred",
@@ -475,10 +754,10 @@ router.get(
 
 /**
  * @swagger
- * /wallet/transfer:
+ * /wallet/wallets:
  *   post:
- *     summary: Transfer funds to another wallet
- *     description: Transfer money from your wallet to another user's wallet
+ *     summary: Open a wallet in another currency
+ *     description: Open a wallet for the authenticated user in the given currency. Returns the existing wallet if the user already holds that currency.
  *     tags: [Wallet]
  *     security:
  *       - BearerAuth: []
@@ -490,31 +769,25 @@ router.get(
  *           schema:
  *             type: object
  *             required:
- *               - wallet_number
- *               - amount
+ *               - currency
  *             properties:
- *               wallet_number:
+ *               currency:
  *                 type: string
- *                 description: Recipient's wallet number (13 digits)
- *                 example: "4566678954356"
- *               amount:
- *                 type: number
- *                 description: Amount to transfer in kobo
- *                 example: 3000
+ *                 enum: [NGN, GHS, KES, ZAR, USD]
+ *                 example: GHS
  *     responses:
- *       200:
- *         description: Transfer status
+ *       201:
+ *         description: Wallet opened
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 status:
- *                   type: string
- *                   enum: [success, failed]
- *                 message:
- *                   type: string
- *                   example: Transfer completed
+ *               $ref: '#/components/schemas/Wallet'
+ *       400:
+ *         description: Unsupported currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Unauthorized
  *         content:
@@ -535,75 +808,38 @@ router.get(
  *               $ref: '#/components/schemas/Error'
  */
 router.post(
-  "/transfer",
+  "/wallets",
   authenticate,
-  requirePermission("transfer"),
+  requirePermission("deposit"),
+  rateLimit("deposit"),
   async (req: AuthRequest, res: Response) => {
     try {
-      const { amount, wallet_number } = req.body;
-
-      const userId = req.user!.id;
-
-      const senderWallet = await Wallet.findOne({ userId: userId });
-      const hasWallet = await Wallet.findOne({ walletNumber: wallet_number });
-
-      if (hasWallet && senderWallet) {
-        if (hasWallet.userId === userId) {
-          console.log(hasWallet.userId, userId);
-          return res.status(200).json({
-            status: "failed",
-            message: "You cannot transfer to yourself",
-          });
-        }
-
-        if (senderWallet.balance >= amount) {
-          const recipientWallet = await Wallet.findOne({
-            walletNumber: wallet_number,
-          });
-
-          if (recipientWallet) {
-            recipientWallet.balance = recipientWallet.balance + amount;
-            await recipientWallet.save();
-
-            senderWallet.balance = senderWallet.balance - amount;
-            await senderWallet.save();
-
-            const transaction = new Transaction({
-              reference: paystackService.generateReference(),
-              amount,
-              type: "transfer",
-              status: "success",
-              paystackAuthorizationUrl: null,
-              senderId: userId,
-              receiverId: recipientWallet.userId,
-            });
-
-            await transaction.save();
+      if (!req.body.currency) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: "Currency is required",
+        });
+      }
 
-            return res.status(200).json({
-              status: "success",
-              message: "Transfer completed",
-            });
-          } else {
-            return res.status(200).json({
-              status: "failed",
-              message: "Wallet Number not found",
-            });
-          }
-        } else {
-          return res.status(200).json({
-            status: "failed",
-            message: "Insufficient Balance",
-          });
-        }
+      let currency;
+      try {
+        currency = walletAccountService.parseCurrency(req.body.currency);
+      } catch (error: any) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: error.message,
+        });
       }
 
-      return res.status(404).json({
-        error: "wallet_not_found",
-        message: "Wallet not found for this user",
+      const wallet = await walletAccountService.open(req.user!.id, currency);
+
+      return res.status(201).json({
+        wallet_number: wallet.walletNumber,
+        currency: wallet.currency,
+        balance: wallet.balance,
       });
     } catch (error) {
-      console.error("Unexpected error in making transfer:", error);
+      console.error("Unexpected error in opening wallet:", error);
       return res.status(500).json({
         error: "internal_error",
         message: "An unexpected error occurred",
@@ -612,45 +848,50 @@ router.post(
   }
 );
 
+const formatVirtualAccount = (virtualAccount: IVirtualAccount) => ({
+  account_number: virtualAccount.accountNumber,
+  account_name: virtualAccount.accountName,
+  bank_name: virtualAccount.bankName,
+  bank_slug: virtualAccount.bankSlug,
+  wallet_number: virtualAccount.walletNumber,
+  currency: virtualAccount.currency,
+  active: virtualAccount.active,
+  created_at: virtualAccount.createdAt,
+});
+
 /**
  * @swagger
- * /wallet/transactions:
+ * /wallet/virtual-account:
  *   get:
- *     summary: Get transaction history
- *     description: Retrieve all transactions for the authenticated user (deposits and transfers)
+ *     summary: Get the wallet's virtual bank account
+ *     description: Bank transfers into this account number are credited to the wallet automatically.
  *     tags: [Wallet]
  *     security:
  *       - BearerAuth: []
  *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Currency'
  *     responses:
  *       200:
- *         description: Transaction history retrieved successfully
+ *         description: Virtual account retrieved
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 type: object
- *                 properties:
- *                   type:
- *                     type: string
- *                     enum: [deposit, transfer]
- *                     example: deposit
- *                   amount:
- *                     type: number
- *                     example: 5000
- *                   status:
- *                     type: string
- *                     enum: [pending, success, failed]
- *                     example: success
+ *               $ref: '#/components/schemas/VirtualAccount'
+ *       400:
+ *         description: Unsupported currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       401:
  *         description: Unauthorized
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       403:
- *         description: Insufficient permissions
+ *       404:
+ *         description: No virtual account assigned yet (see POST /wallet/virtual-account)
  *         content:
  *           application/json:
  *             schema:
@@ -663,25 +904,1296 @@ router.post(
  *               $ref: '#/components/schemas/Error'
  */
 router.get(
-  "/transactions",
+  "/virtual-account",
   authenticate,
+  requireLiveMode,
   requirePermission("read"),
+  rateLimit("read"),
   async (req: AuthRequest, res: Response) => {
     try {
-      const userId = req.user!.id;
-
-      // Find all transactions where user is involved (deposits, sent, or received)
-      const transactions = await Transaction.find({
-        $or: [{ userId: userId }, { senderId: userId }, { receiverId: userId }],
-      }).sort({ createdAt: -1 });
+      let currency;
+      try {
+        currency = walletAccountService.parseCurrency(req.query.currency);
+      } catch (error: any) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: error.message,
+        });
+      }
 
-      return res.status(200).json(
-        transactions.map((tx) => ({
-          type: tx.type,
-          amount: tx.amount,
-          status: tx.status,
+      const virtualAccount = await virtualAccountService.find(
+        req.user!.id,
+        currency
+      );
+      if (!virtualAccount) {
+        return res.status(404).json({
+          error: "not_found",
+          message: "No virtual account has been assigned to this wallet",
+        });
+      }
+
+      return res.status(200).json(formatVirtualAccount(virtualAccount));
+    } catch (error) {
+      console.error("Unexpected error in fetching virtual account:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/virtual-account:
+ *   post:
+ *     summary: Assign a virtual bank account to the wallet
+ *     description: Ask Paystack for a dedicated bank account number for the user's wallet. Returns the existing account if one is already assigned. Only NGN wallets can have a virtual account.
+ *     tags: [Wallet]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               currency:
+ *                 type: string
+ *                 enum: [NGN]
+ *                 default: NGN
+ *     responses:
+ *       201:
+ *         description: Virtual account assigned
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VirtualAccount'
+ *       400:
+ *         description: Currency without virtual accounts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: Paystack could not assign an account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/virtual-account",
+  authenticate,
+  requireLiveMode,
+  requirePermission("deposit"),
+  rateLimit("deposit"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      let virtualAccount;
+      try {
+        virtualAccount = await virtualAccountService.assign(
+          req.user!.id,
+          walletAccountService.parseCurrency(req.body?.currency)
+        );
+      } catch (error: any) {
+        if (
+          error.message === "Unsupported currency" ||
+          error.message ===
+            "Virtual accounts are only available for NGN wallets"
+        ) {
+          return res.status(400).json({
+            error: "invalid_input",
+            message: error.message,
+          });
+        }
+        if (error.message?.startsWith("Paystack")) {
+          console.error("Paystack virtual account error:", error);
+          return res.status(502).json({
+            error: "virtual_account_failed",
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+
+      return res.status(201).json(formatVirtualAccount(virtualAccount));
+    } catch (error) {
+      console.error("Unexpected error in assigning virtual account:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/balance:
+ *   get:
+ *     summary: Get wallet balance
+ *     description: Retrieve the current balance of the authenticated user's wallet in one currency
+ *     tags: [Wallet]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Currency'
+ *     responses:
+ *       200:
+ *         description: Wallet balance retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 balance:
+ *                   type: number
+ *                   description: Balance in the currency's minor unit
+ *                   example: 15000
+ *                 currency:
+ *                   type: string
+ *                   example: NGN
+ *       400:
+ *         description: Unsupported currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/balance",
+  authenticate,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+
+      let currency;
+      try {
+        currency = walletAccountService.parseCurrency(req.query.currency);
+      } catch (error: any) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: error.message,
+        });
+      }
+
+      const hasWallet = await walletAccountService.find(userId, currency);
+      if (hasWallet) {
+        return res.status(200).json({
+          balance: hasWallet.balance,
+          currency: hasWallet.currency,
+        });
+      }
+
+      return res.status(404).json({
+        error: "wallet_not_found",
+        message: "Wallet not found for this user",
+      });
+    } catch (error) {
+      console.error("Unexpected error in getting user balance:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/ledger:
+ *   get:
+ *     summary: Get wallet ledger
+ *     description: Retrieve the latest ledger entries for the authenticated user's wallet and check the stored balance against the ledger
+ *     tags: [Wallet]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/Currency'
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *         description: Maximum number of entries to return
+ *     responses:
+ *       200:
+ *         description: Ledger retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 currency:
+ *                   type: string
+ *                   example: NGN
+ *                 balance:
+ *                   type: number
+ *                   description: Stored wallet balance in minor units
+ *                   example: 15000
+ *                 ledger_balance:
+ *                   type: number
+ *                   description: Balance derived from ledger entries in minor units
+ *                   example: 15000
+ *                 consistent:
+ *                   type: boolean
+ *                   example: true
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/LedgerEntry'
+ *       400:
+ *         description: Unsupported currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Wallet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/ledger",
+  authenticate,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+      let currency;
+      try {
+        currency = walletAccountService.parseCurrency(req.query.currency);
+      } catch (error: any) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: error.message,
+        });
+      }
+
+      const wallet = await walletAccountService.find(userId, currency);
+      if (!wallet) {
+        return res.status(404).json({
+          error: "wallet_not_found",
+          message: "Wallet not found for this user",
+        });
+      }
+
+      const check = await ledgerService.checkWalletBalance(wallet);
+      const entries = await ledgerService.getEntries(
+        wallet.walletNumber,
+        limit
+      );
+
+      return res.status(200).json({
+        currency: wallet.currency,
+        balance: check.balance,
+        ledger_balance: check.ledgerBalance,
+        consistent: check.consistent,
+        entries: entries.map((entry) => ({
+          reference: entry.reference,
+          direction: entry.direction,
+          amount: entry.amount,
+          createdAt: entry.createdAt,
+        })),
+      });
+    } catch (error) {
+      console.error("Unexpected error in getting wallet ledger:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/transfer:
+ *   post:
+ *     summary: Transfer funds to another wallet
+ *     description: Transfer money from your wallet to another user's wallet. The debit, credit and transaction record are committed atomically.
+ *     tags: [Wallet]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               wallet_number:
+ *                 type: string
+ *                 description: Recipient's wallet number (13 digits). Required unless beneficiary_id is given.
+ *                 example: "4566678954356"
+ *               beneficiary_id:
+ *                 type: string
+ *                 description: ID of a saved wallet beneficiary to send to instead of wallet_number
+ *               amount:
+ *                 type: number
+ *                 description: Amount to transfer in the currency's minor unit
+ *                 example: 3000
+ *               currency:
+ *                 type: string
+ *                 enum: [NGN, GHS, KES, ZAR, USD]
+ *                 default: NGN
+ *                 description: Currency of the wallet to send from. The recipient wallet must hold the same currency.
+ *     responses:
+ *       200:
+ *         description: Transfer status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   enum: [success, failed]
+ *                 message:
+ *                   type: string
+ *                   example: Transfer completed
+ *       400:
+ *         description: Invalid amount, unsupported currency or currency mismatch
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions, or the API key's spending limits would be exceeded (limit_exceeded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Sender wallet, recipient wallet or beneficiary not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Idempotency-Key reused with a different body, still in progress, or already paid by an abandoned run
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/transfer",
+  authenticate,
+  requirePermission("transfer"),
+  rateLimit("transfer"),
+  idempotency,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { amount, wallet_number, beneficiary_id } = req.body;
+
+      const userId = req.user!.id;
+
+      try {
+        const currency = walletAccountService.parseCurrency(req.body.currency);
+
+        let recipientWalletNumber = wallet_number;
+        if (beneficiary_id) {
+          const beneficiary = await beneficiaryService.get(
+            userId,
+            beneficiary_id
+          );
+          if (beneficiary.type !== "wallet") {
+            throw new Error("Beneficiary is not a wallet beneficiary");
+          }
+          recipientWalletNumber = beneficiary.walletNumber;
+        }
+
+        await transferService.transfer(
+          userId,
+          recipientWalletNumber,
+          amount,
+          currency,
+          {
+            reference: idempotentReference(req, "TRF")?.toUpperCase(),
+            apiKeyId: req.apiKey?.id,
+          }
+        );
+      } catch (error: any) {
+        // The request was run before by a process that died after paying
+        if (req.idempotencyId && error.code === 11000) {
+          return res.status(409).json({
+            error: "already_processed",
+            message: "A payment has already been made for this Idempotency-Key",
+          });
+        }
+
+        if (error.message?.startsWith("API key limit exceeded")) {
+          return res.status(403).json({
+            error: "limit_exceeded",
+            message: error.message,
+          });
+        }
+
+        switch (error.message) {
+          case "Amount must be a positive number (in kobo)":
+          case "Amount must be a whole number of minor units":
+          case "Unsupported currency":
+          case "Beneficiary is not a wallet beneficiary":
+            return res.status(400).json({
+              error: "invalid_input",
+              message: error.message,
+            });
+          case "Cross-currency transfers are not supported; convert the funds first":
+            return res.status(400).json({
+              error: "currency_mismatch",
+              message: error.message,
+            });
+          case "Beneficiary not found":
+            return res.status(404).json({
+              error: "not_found",
+              message: error.message,
+            });
+          case "Wallet not found for this user":
+          case "Recipient wallet not found":
+            return res.status(404).json({
+              error: "wallet_not_found",
+              message: error.message,
+            });
+          case "You cannot transfer to yourself":
+            return res.status(200).json({
+              status: "failed",
+              message: error.message,
+            });
+          case "Insufficient balance":
+            return res.status(200).json({
+              status: "failed",
+              message: "Insufficient Balance",
+            });
+          default:
+            throw error;
+        }
+      }
+
+      return res.status(200).json({
+        status: "success",
+        message: "Transfer completed",
+      });
+    } catch (error) {
+      console.error("Unexpected error in making transfer:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/withdraw:
+ *   post:
+ *     summary: Withdraw funds to a bank account
+ *     description: Send money from your wallet to a Nigerian bank account via Paystack Transfers. The amount is held while the transfer is pending and is returned to the wallet if the transfer fails or is reversed.
+ *     tags: [Wallet]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Amount to withdraw in kobo
+ *                 example: 50000
+ *               account_number:
+ *                 type: string
+ *                 description: 10-digit NUBAN account number. Required unless beneficiary_id is given.
+ *                 example: "0123456789"
+ *               bank_code:
+ *                 type: string
+ *                 description: Paystack bank code
+ *                 example: "058"
+ *               account_name:
+ *                 type: string
+ *                 description: Account holder name (defaults to your name)
+ *                 example: John Doe
+ *               reason:
+ *                 type: string
+ *                 description: Narration shown on the transfer
+ *                 example: Savings
+ *               beneficiary_id:
+ *                 type: string
+ *                 description: ID of a saved bank beneficiary to withdraw to instead of account_number and bank_code
+ *     responses:
+ *       201:
+ *         description: Withdrawal initiated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reference:
+ *                   type: string
+ *                   example: wd_1701875234567_abc123
+ *                 status:
+ *                   type: string
+ *                   enum: [pending, failed]
+ *                 message:
+ *                   type: string
+ *                   example: Withdrawal initiated
+ *       200:
+ *         description: Withdrawal not possible (insufficient balance)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: failed
+ *                 message:
+ *                   type: string
+ *                   example: Insufficient Balance
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       402:
+ *         description: Paystack rejected the withdrawal
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions (API key without withdraw permission), or the API key's spending limits would be exceeded (limit_exceeded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Wallet or beneficiary not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Idempotency-Key reused with a different body, still in progress, or already paid by an abandoned run
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/withdraw",
+  authenticate,
+  requireLiveMode,
+  requirePermission("withdraw"),
+  rateLimit("withdraw"),
+  idempotency,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const {
+        amount,
+        account_number,
+        bank_code,
+        account_name,
+        reason,
+        beneficiary_id,
+      } = req.body;
+
+      const userId = req.user!.id;
+
+      let withdrawal;
+      try {
+        let destination = {
+          accountNumber: account_number,
+          bankCode: bank_code,
+          accountName: account_name,
+        };
+        if (beneficiary_id) {
+          const beneficiary = await beneficiaryService.get(
+            userId,
+            beneficiary_id
+          );
+          if (beneficiary.type !== "bank") {
+            throw new Error("Beneficiary is not a bank beneficiary");
+          }
+          destination = {
+            accountNumber: beneficiary.accountNumber,
+            bankCode: beneficiary.bankCode,
+            accountName: beneficiary.accountName,
+          };
+        }
+
+        withdrawal = await withdrawalService.withdraw(
+          userId,
+          amount,
+          destination.accountNumber,
+          destination.bankCode,
+          destination.accountName,
+          reason,
+          req.apiKey?.id,
+          idempotentReference(req, "wd")
+        );
+      } catch (error: any) {
+        // The request was run before by a process that died after paying
+        if (req.idempotencyId && error.code === 11000) {
+          return res.status(409).json({
+            error: "already_processed",
+            message: "A payment has already been made for this Idempotency-Key",
+          });
+        }
+
+        if (error.message?.startsWith("API key limit exceeded")) {
+          return res.status(403).json({
+            error: "limit_exceeded",
+            message: error.message,
+          });
+        }
+
+        switch (error.message) {
+          case "Amount must be a positive number (in kobo)":
+          case "Amount must be a whole number of minor units":
+          case "Account number must be 10 digits":
+          case "Bank code is required":
+          case "Beneficiary is not a bank beneficiary":
+            return res.status(400).json({
+              error: "invalid_input",
+              message: error.message,
+            });
+          case "Beneficiary not found":
+            return res.status(404).json({
+              error: "not_found",
+              message: error.message,
+            });
+          case "Wallet not found for this user":
+            return res.status(404).json({
+              error: "wallet_not_found",
+              message: error.message,
+            });
+          case "Insufficient balance":
+            return res.status(200).json({
+              status: "failed",
+              message: "Insufficient Balance",
+            });
+        }
+
+        if (error.message?.startsWith("Paystack")) {
+          console.error("Paystack withdrawal error:", error);
+          return res.status(402).json({
+            error: "withdrawal_failed",
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+
+      return res.status(201).json({
+        reference: withdrawal.reference,
+        status: withdrawal.status,
+        message:
+          withdrawal.status === "pending"
+            ? "Withdrawal initiated"
+            : "Withdrawal failed",
+      });
+    } catch (error) {
+      console.error("Unexpected error in making withdrawal:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/withdraw/{reference}/status:
+ *   get:
+ *     summary: Check withdrawal status
+ *     description: Get the current status of a bank withdrawal. A pending withdrawal is verified with Paystack and settled exactly as the transfer webhook would, so a withdrawal whose webhook never arrived, or whose outcome was unknown when it was made, can still complete or be returned to the wallet.
+ *     tags: [Wallet]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reference
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Withdrawal reference
+ *         example: wd_1701875234567_abc123
+ *     responses:
+ *       200:
+ *         description: Withdrawal status retrieved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reference:
+ *                   type: string
+ *                 status:
+ *                   type: string
+ *                   enum: [pending, success, failed, reversed]
+ *                 amount:
+ *                   type: number
+ *                 currency:
+ *                   type: string
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Forbidden - not your withdrawal, or insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Withdrawal not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/withdraw/:reference/status",
+  authenticate,
+  requireLiveMode,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      let withdrawal = await Transaction.findOne({
+        reference: req.params.reference,
+        type: "withdrawal",
+      });
+
+      if (!withdrawal) {
+        return res.status(404).json({
+          error: "not_found",
+          message: "Withdrawal not found",
+        });
+      }
+
+      if (withdrawal.userId !== req.user!.id) {
+        return res.status(403).json({
+          error: "forbidden",
+          message: "You don't have permission to view this withdrawal",
+        });
+      }
+
+      if (withdrawal.status === "pending") {
+        try {
+          const result = await withdrawalService.sync(withdrawal);
+          if (result !== "unchanged") {
+            withdrawal =
+              (await Transaction.findById(withdrawal._id)) ?? withdrawal;
+          }
+        } catch (error) {
+          console.error("Failed to verify withdrawal with Paystack:", error);
+          // Continue with database status if verification fails
+        }
+      }
+
+      return res.status(200).json({
+        reference: withdrawal.reference,
+        status: withdrawal.status,
+        amount: withdrawal.amount,
+        currency: withdrawal.currency,
+      });
+    } catch (error) {
+      console.error("Error checking withdrawal status:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "Failed to retrieve withdrawal status",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/banks:
+ *   get:
+ *     summary: List banks
+ *     description: Retrieve Nigerian banks that can receive withdrawals, with their Paystack bank codes
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Banks retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   name:
+ *                     type: string
+ *                     example: Guaranty Trust Bank
+ *                   code:
+ *                     type: string
+ *                     example: "058"
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       502:
+ *         description: Paystack request failed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/banks",
+  authenticate,
+  requireLiveMode,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (_req: AuthRequest, res: Response) => {
+    try {
+      const banks = await paystackService.listBanks();
+      return res.status(200).json(
+        banks.map((bank) => ({
+          name: bank.name,
+          code: bank.code,
         }))
       );
+    } catch (error) {
+      console.error("Failed to list banks:", error);
+      return res.status(502).json({
+        error: "provider_error",
+        message: "Failed to retrieve banks from Paystack",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/banks/resolve:
+ *   get:
+ *     summary: Resolve a bank account name
+ *     description: Look up the account holder name for a bank account before saving it or withdrawing to it
+ *     tags: [Beneficiaries]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: account_number
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "0123456789"
+ *       - in: query
+ *         name: bank_code
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "058"
+ *     responses:
+ *       200:
+ *         description: Account resolved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 account_number:
+ *                   type: string
+ *                   example: "0123456789"
+ *                 account_name:
+ *                   type: string
+ *                   example: JOHN DOE
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: Account could not be resolved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/banks/resolve",
+  authenticate,
+  requireLiveMode,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    const accountNumber = req.query.account_number as string;
+    const bankCode = req.query.bank_code as string;
+
+    if (!accountNumber || !/^\d{10}$/.test(accountNumber) || !bankCode) {
+      return res.status(400).json({
+        error: "invalid_input",
+        message: "A 10-digit account_number and a bank_code are required",
+      });
+    }
+
+    try {
+      const resolved = await paystackService.resolveAccount(
+        accountNumber,
+        bankCode
+      );
+      return res.status(200).json({
+        account_number: resolved.account_number,
+        account_name: resolved.account_name,
+      });
+    } catch (error) {
+      console.error("Failed to resolve bank account:", error);
+      return res.status(422).json({
+        error: "account_resolution_failed",
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to resolve bank account",
+      });
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /wallet/transactions:
+ *   get:
+ *     summary: Get transaction history
+ *     description: Retrieve a page of the authenticated user's transactions (deposits, transfers, withdrawals, conversions, refunds and disputes), with filters and cursor-based pagination
+ *     tags: [Wallet]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *         description: Page size
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: next_cursor from the previous page
+ *       - in: query
+ *         name: sort_by
+ *         schema:
+ *           type: string
+ *           enum: [created_at, amount]
+ *           default: created_at
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [deposit, transfer, refund, dispute, withdrawal, conversion, opening_balance]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, success, failed, reversed]
+ *       - in: query
+ *         name: currency
+ *         schema:
+ *           type: string
+ *           enum: [NGN, GHS, KES, ZAR, USD]
+ *         description: Only transactions in this currency
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only transactions created at or after this time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only transactions created at or before this time
+ *       - in: query
+ *         name: min_amount
+ *         schema:
+ *           type: number
+ *         description: Minimum amount in minor units
+ *       - in: query
+ *         name: max_amount
+ *         schema:
+ *           type: number
+ *         description: Maximum amount in minor units
+ *       - in: query
+ *         name: counterparty
+ *         schema:
+ *           type: string
+ *         description: Only transfers to or from this wallet number
+ *     responses:
+ *       200:
+ *         description: Transaction history retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 transactions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TransactionHistoryItem'
+ *                 pagination:
+ *                   type: object
+ *                   properties:
+ *                     next_cursor:
+ *                       type: string
+ *                       nullable: true
+ *                     has_more:
+ *                       type: boolean
+ *       400:
+ *         description: Invalid filter or cursor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/transactions",
+  authenticate,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const userId = req.user!.id;
+      const query = req.query as Record<string, string | undefined>;
+
+      const parseDate = (value?: string) =>
+        value === undefined ? undefined : new Date(value);
+      const parseAmount = (value?: string) =>
+        value === undefined ? undefined : Number(value);
+
+      const from = parseDate(query.from);
+      const to = parseDate(query.to);
+      const minAmount = parseAmount(query.min_amount);
+      const maxAmount = parseAmount(query.max_amount);
+
+      if (
+        (from && isNaN(from.getTime())) ||
+        (to && isNaN(to.getTime())) ||
+        (minAmount !== undefined && isNaN(minAmount)) ||
+        (maxAmount !== undefined && isNaN(maxAmount)) ||
+        (query.sort_by && !["created_at", "amount"].includes(query.sort_by)) ||
+        (query.order && !["asc", "desc"].includes(query.order))
+      ) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: "Invalid filter or sort parameters",
+        });
+      }
+
+      let history;
+      try {
+        history = await transactionService.history(userId, {
+          limit: parseInt(query.limit as string) || undefined,
+          cursor: query.cursor,
+          sortBy: query.sort_by === "amount" ? "amount" : "createdAt",
+          order: query.order as "asc" | "desc" | undefined,
+          type: query.type as TransactionType | undefined,
+          status: query.status as TransactionStatus | undefined,
+          currency: query.currency
+            ? walletAccountService.parseCurrency(query.currency)
+            : undefined,
+          from,
+          to,
+          minAmount,
+          maxAmount,
+          counterparty: query.counterparty,
+        });
+      } catch (error: any) {
+        if (
+          [
+            "Invalid cursor",
+            "Invalid transaction type",
+            "Invalid transaction status",
+            "Unsupported currency",
+          ].includes(error.message)
+        ) {
+          return res.status(400).json({
+            error: "invalid_input",
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+
+      return res.status(200).json({
+        transactions: history.transactions.map(
+          ({ transaction, direction, counterpartyWalletNumber }) => ({
+            reference: transaction.reference,
+            type: transaction.type,
+            amount: transaction.amount,
+            currency: transaction.currency,
+            status: transaction.status,
+            direction,
+            counterparty_wallet_number: counterpartyWalletNumber,
+            scheduled_transfer_id: transaction.scheduledTransferId,
+            createdAt: transaction.createdAt,
+            paidAt: transaction.paidAt,
+          })
+        ),
+        pagination: {
+          next_cursor: history.nextCursor,
+          has_more: history.hasMore,
+        },
+      });
     } catch (error) {
       console.error("Unexpected error in getting transaction history:", error);
       return res.status(500).json({
@@ -692,4 +2204,181 @@ router.get(
   }
 );
 
+/**
+ * @swagger
+ * /wallet/statement:
+ *   get:
+ *     summary: Download an account statement
+ *     description: Generate a statement for the authenticated user's wallet with the opening balance, every ledger movement in the period with a running balance, and the closing balance
+ *     tags: [Wallet]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Start of the period (ISO 8601 date or date-time)
+ *         example: "2025-12-01"
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: End of the period. A plain date includes the whole day.
+ *         example: "2025-12-31"
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, pdf]
+ *           default: csv
+ *       - $ref: '#/components/parameters/Currency'
+ *     responses:
+ *       200:
+ *         description: Statement file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid period, format or currency
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Wallet not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/statement",
+  authenticate,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const query = req.query as Record<string, string | undefined>;
+      const format = query.format || "csv";
+
+      if (format !== "csv" && format !== "pdf") {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: "Format must be either csv or pdf",
+        });
+      }
+
+      if (!query.from || !query.to) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: "Both from and to dates are required",
+        });
+      }
+
+      const from = new Date(query.from);
+      const to = new Date(query.to);
+
+      // A plain date as the end of the period covers that whole day
+      if (/^\d{4}-\d{2}-\d{2}$/.test(query.to)) {
+        to.setUTCHours(23, 59, 59, 999);
+      }
+
+      if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: "Dates must be valid ISO 8601 dates",
+        });
+      }
+
+      let statement;
+      try {
+        statement = await statementService.generate(
+          req.user!.id,
+          from,
+          to,
+          walletAccountService.parseCurrency(query.currency)
+        );
+      } catch (error: any) {
+        if (
+          error.message ===
+            "Statement start date must be before the end date" ||
+          error.message === "Unsupported currency"
+        ) {
+          return res.status(400).json({
+            error: "invalid_input",
+            message: error.message,
+          });
+        }
+
+        if (error.message === "Wallet not found for this user") {
+          return res.status(404).json({
+            error: "wallet_not_found",
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+
+      const filename = [
+        "statement",
+        statement.walletNumber,
+        from.toISOString().slice(0, 10),
+        to.toISOString().slice(0, 10),
+      ].join("-");
+
+      if (format === "pdf") {
+        const pdf = await statementService.toPdf(statement);
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="${filename}.pdf"`
+        );
+        return res.status(200).send(pdf);
+      }
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${filename}.csv"`
+      );
+      return res.status(200).send(statementService.toCsv(statement));
+    } catch (error) {
+      console.error("Unexpected error in generating statement:", error);
+      return res.status(500).json({
+        error: "internal_error",
+        message: "An unexpected error occurred",
+      });
+    }
+  }
+);
+
 export default router;
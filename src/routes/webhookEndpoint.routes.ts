@@ -0,0 +1,684 @@
+import { Router, Response } from "express";
+import webhookEndpointService from "../services/webhookEndpoint.service";
+import webhookDeliveryService from "../services/webhookDelivery.service";
+import { IWebhookEndpoint } from "../models/WebhookEndpoint";
+import { IWebhookDelivery } from "../models/WebhookDelivery";
+import {
+  authenticate,
+  AuthRequest,
+  requireJwt,
+  requireLiveMode,
+  requirePermission,
+} from "../middleware/auth.middleware";
+import { rateLimit } from "../middleware/rateLimit.middleware";
+
+const router = Router();
+
+const DELIVERY_STATUSES = ["pending", "delivered", "failed"];
+
+const formatEndpoint = (endpoint: IWebhookEndpoint) => ({
+  id: endpoint.id,
+  url: endpoint.url,
+  events: endpoint.events,
+  description: endpoint.description,
+  active: endpoint.active,
+  created_at: endpoint.createdAt,
+});
+
+const formatDelivery = (delivery: IWebhookDelivery) => ({
+  id: delivery.id,
+  endpoint_id: delivery.endpointId,
+  event_id: delivery.eventId,
+  event: delivery.event,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  next_attempt_at:
+    delivery.status === "pending" ? delivery.nextAttemptAt : undefined,
+  last_attempt_at: delivery.lastAttemptAt,
+  response_status: delivery.responseStatus,
+  error: delivery.error,
+  delivered_at: delivery.deliveredAt,
+  payload: JSON.parse(delivery.body),
+  created_at: delivery.createdAt,
+});
+
+const handleWebhookError = (
+  error: any,
+  res: Response,
+  fallbackMessage: string
+) => {
+  if (
+    error.message === "URL must be a valid http or https URL" ||
+    error.message === "URL must not point to a private or local address" ||
+    error.message === "URL host could not be resolved" ||
+    error.message.startsWith("Events must be a non-empty list of") ||
+    error.message.startsWith("Secret must be a string of at least")
+  ) {
+    return res.status(400).json({
+      error: "invalid_input",
+      message: error.message,
+    });
+  }
+
+  if (
+    error.message === "Webhook endpoint not found" ||
+    error.message === "Webhook delivery not found"
+  ) {
+    return res.status(404).json({
+      error: "not_found",
+      message: error.message,
+    });
+  }
+
+  if (error.message === "Webhook delivery is already being sent") {
+    return res.status(409).json({
+      error: "invalid_state",
+      message: error.message,
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    error: "internal_error",
+    message: fallbackMessage,
+  });
+};
+
+/**
+ * @swagger
+ * /webhooks/endpoints:
+ *   get:
+ *     summary: List webhook endpoints
+ *     tags: [Webhooks]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Webhook endpoints retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WebhookEndpoint'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Test-mode key, or insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/endpoints",
+  authenticate,
+  requireLiveMode,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const endpoints = await webhookEndpointService.list(req.user!.id);
+      return res.status(200).json(endpoints.map(formatEndpoint));
+    } catch (error: any) {
+      return handleWebhookError(
+        error,
+        res,
+        "Failed to fetch webhook endpoints"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /webhooks/endpoints:
+ *   post:
+ *     summary: Register a webhook endpoint
+ *     description: Events the endpoint subscribes to are POSTed to its URL as JSON, signed with the endpoint secret in the x-wallet-signature header (hex HMAC-SHA512 of the raw body, like Paystack's x-paystack-signature). A secret is generated when none is given; it is only returned in this response. Requires a JWT; API keys cannot change where events are sent.
+ *     tags: [Webhooks]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - url
+ *               - events
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 example: https://example.com/hooks/wallet
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [deposit.succeeded, transfer.received, transfer.sent, key.expiring]
+ *                 example: [deposit.succeeded, transfer.received]
+ *               secret:
+ *                 type: string
+ *                 description: Signing secret (at least 16 characters)
+ *               description:
+ *                 type: string
+ *                 example: Order service
+ *     responses:
+ *       201:
+ *         description: Webhook endpoint registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/WebhookEndpoint'
+ *                 - type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: whsec_3f9a...
+ *       400:
+ *         description: Invalid URL (including URLs that resolve to private or local addresses), events or secret
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Called with an API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/endpoints",
+  authenticate,
+  requireJwt,
+  rateLimit(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { url, events, secret, description } = req.body;
+
+      if (description !== undefined && typeof description !== "string") {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: "Description must be a string",
+        });
+      }
+
+      const endpoint = await webhookEndpointService.create(req.user!.id, {
+        url,
+        events,
+        secret,
+        description,
+      });
+
+      return res.status(201).json({
+        ...formatEndpoint(endpoint),
+        secret: endpoint.secret,
+      });
+    } catch (error: any) {
+      return handleWebhookError(
+        error,
+        res,
+        "Failed to register webhook endpoint"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /webhooks/endpoints/{id}:
+ *   get:
+ *     summary: Get a webhook endpoint
+ *     tags: [Webhooks]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook endpoint retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookEndpoint'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Test-mode key, or insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Webhook endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/endpoints/:id",
+  authenticate,
+  requireLiveMode,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const endpoint = await webhookEndpointService.get(
+        req.user!.id,
+        req.params.id
+      );
+      return res.status(200).json(formatEndpoint(endpoint));
+    } catch (error: any) {
+      return handleWebhookError(error, res, "Failed to fetch webhook endpoint");
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /webhooks/endpoints/{id}:
+ *   patch:
+ *     summary: Update a webhook endpoint
+ *     description: Change the URL, subscribed events or secret, or pause the endpoint with active set to false. Deliveries to a paused endpoint are not retried. Requires a JWT; API keys cannot change where events are sent.
+ *     tags: [Webhooks]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 example: https://example.com/hooks/wallet
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [deposit.succeeded, transfer.received, transfer.sent, key.expiring]
+ *                 example: [deposit.succeeded, transfer.received]
+ *               secret:
+ *                 type: string
+ *                 description: Signing secret (at least 16 characters)
+ *               description:
+ *                 type: string
+ *                 example: Order service
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Webhook endpoint updated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookEndpoint'
+ *       400:
+ *         description: Invalid URL (including URLs that resolve to private or local addresses), events or secret
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Called with an API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Webhook endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.patch(
+  "/endpoints/:id",
+  authenticate,
+  requireJwt,
+  rateLimit(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const { url, events, secret, description, active } = req.body;
+
+      if (description !== undefined && typeof description !== "string") {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: "Description must be a string",
+        });
+      }
+
+      if (active !== undefined && typeof active !== "boolean") {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: "Active must be a boolean",
+        });
+      }
+
+      const endpoint = await webhookEndpointService.update(
+        req.user!.id,
+        req.params.id,
+        { url, events, secret, description, active }
+      );
+      return res.status(200).json(formatEndpoint(endpoint));
+    } catch (error: any) {
+      return handleWebhookError(
+        error,
+        res,
+        "Failed to update webhook endpoint"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /webhooks/endpoints/{id}:
+ *   delete:
+ *     summary: Delete a webhook endpoint
+ *     description: The endpoint stops receiving events. Its delivery log is kept. Requires a JWT; API keys cannot change where events are sent.
+ *     tags: [Webhooks]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook endpoint deleted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                   example: Webhook endpoint deleted successfully
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Called with an API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Webhook endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete(
+  "/endpoints/:id",
+  authenticate,
+  requireJwt,
+  rateLimit(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      await webhookEndpointService.remove(req.user!.id, req.params.id);
+      return res.status(200).json({
+        message: "Webhook endpoint deleted successfully",
+      });
+    } catch (error: any) {
+      return handleWebhookError(
+        error,
+        res,
+        "Failed to delete webhook endpoint"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /webhooks/endpoints/{id}/deliveries:
+ *   get:
+ *     summary: Delivery log of a webhook endpoint
+ *     description: Events sent (or still being retried) to the endpoint, newest first
+ *     tags: [Webhooks]
+ *     security:
+ *       - BearerAuth: []
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, delivered, failed]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *     responses:
+ *       200:
+ *         description: Deliveries retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WebhookDelivery'
+ *       400:
+ *         description: Invalid status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Test-mode key, or insufficient permissions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Webhook endpoint not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get(
+  "/endpoints/:id/deliveries",
+  authenticate,
+  requireLiveMode,
+  requirePermission("read"),
+  rateLimit("read"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+
+      if (status && !DELIVERY_STATUSES.includes(status)) {
+        return res.status(400).json({
+          error: "invalid_input",
+          message: `Status must be one of ${DELIVERY_STATUSES.join(", ")}`,
+        });
+      }
+
+      const deliveries = await webhookEndpointService.listDeliveries(
+        req.user!.id,
+        req.params.id,
+        status as IWebhookDelivery["status"] | undefined,
+        limit
+      );
+      return res.status(200).json(deliveries.map(formatDelivery));
+    } catch (error: any) {
+      return handleWebhookError(
+        error,
+        res,
+        "Failed to fetch webhook deliveries"
+      );
+    }
+  }
+);
+
+/**
+ * @swagger
+ * /webhooks/deliveries/{id}/redeliver:
+ *   post:
+ *     summary: Redeliver a webhook event
+ *     description: Send a delivery to its endpoint again now, with the same body and signature. Works for delivered and failed deliveries alike; the outcome of the attempt is returned. Requires a JWT.
+ *     tags: [Webhooks]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delivery attempted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WebhookDelivery'
+ *       401:
+ *         description: Unauthorized
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       403:
+ *         description: Called with an API key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Webhook delivery not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The delivery is being sent right now
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post(
+  "/deliveries/:id/redeliver",
+  authenticate,
+  requireJwt,
+  rateLimit(),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const delivery = await webhookDeliveryService.redeliver(
+        req.user!.id,
+        req.params.id
+      );
+      return res.status(200).json(formatDelivery(delivery));
+    } catch (error: any) {
+      return handleWebhookError(
+        error,
+        res,
+        "Failed to redeliver webhook event"
+      );
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,140 @@
+import mongoose from "mongoose";
+import { Beneficiary, BeneficiaryType } from "../models/Beneficiary";
+import { User } from "../models/User";
+import { Wallet } from "../models/Wallet";
+import paystackService from "./wallet.service";
+import sandboxService from "./sandbox.service";
+
+interface BeneficiaryInput {
+  nickname: string;
+  type: BeneficiaryType;
+  walletNumber?: string;
+  accountNumber?: string;
+  bankCode?: string;
+}
+
+const beneficiaryService = {
+  /**
+   * Save a beneficiary after confirming the destination exists. Bank
+   * accounts are resolved through Paystack so the stored name is the real
+   * account holder's.
+   */
+  async create(userId: string, input: BeneficiaryInput) {
+    const nickname = input.nickname?.trim();
+    if (!nickname) {
+      throw new Error("Nickname is required");
+    }
+
+    let details;
+    if (input.type === "wallet") {
+      details = await this.resolveWallet(userId, input.walletNumber);
+    } else if (input.type === "bank") {
+      details = await this.resolveBankAccount(
+        input.accountNumber,
+        input.bankCode
+      );
+    } else {
+      throw new Error("Type must be either wallet or bank");
+    }
+
+    try {
+      return await Beneficiary.create({
+        userId,
+        nickname,
+        type: input.type,
+        ...details,
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error("A beneficiary with this nickname already exists");
+      }
+      throw error;
+    }
+  },
+
+  async resolveWallet(userId: string, walletNumber?: string) {
+    if (!walletNumber) {
+      throw new Error("Wallet number is required");
+    }
+
+    // Sandbox wallets are hidden from live users, as for transfers
+    const wallet = await Wallet.findOne({ walletNumber });
+    if (!wallet || !sandboxService.sameMode(wallet.userId, userId)) {
+      throw new Error("Recipient wallet not found");
+    }
+
+    if (wallet.userId === userId) {
+      throw new Error("You cannot save your own wallet as a beneficiary");
+    }
+
+    const owner = await User.findById(wallet.userId);
+    return {
+      walletNumber,
+      accountName: owner?.name || "Wallet user",
+    };
+  },
+
+  async resolveBankAccount(accountNumber?: string, bankCode?: string) {
+    if (!accountNumber || !/^\d{10}$/.test(accountNumber)) {
+      throw new Error("Account number must be 10 digits");
+    }
+
+    if (!bankCode) {
+      throw new Error("Bank code is required");
+    }
+
+    const resolved = await paystackService.resolveAccount(
+      accountNumber,
+      bankCode
+    );
+    const banks = await paystackService.listBanks();
+
+    return {
+      accountNumber,
+      bankCode,
+      bankName: banks.find((bank) => bank.code === bankCode)?.name,
+      accountName: resolved.account_name,
+    };
+  },
+
+  async list(userId: string) {
+    return Beneficiary.find({ userId }).sort({ nickname: 1 });
+  },
+
+  async get(userId: string, id: string) {
+    const beneficiary = mongoose.isValidObjectId(id)
+      ? await Beneficiary.findOne({ _id: id, userId })
+      : null;
+
+    if (!beneficiary) {
+      throw new Error("Beneficiary not found");
+    }
+    return beneficiary;
+  },
+
+  async rename(userId: string, id: string, nickname: string) {
+    if (!nickname?.trim()) {
+      throw new Error("Nickname is required");
+    }
+
+    const beneficiary = await this.get(userId, id);
+    beneficiary.nickname = nickname.trim();
+
+    try {
+      return await beneficiary.save();
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error("A beneficiary with this nickname already exists");
+      }
+      throw error;
+    }
+  },
+
+  async remove(userId: string, id: string) {
+    const beneficiary = await this.get(userId, id);
+    await beneficiary.deleteOne();
+    return beneficiary;
+  },
+};
+
+export default beneficiaryService;
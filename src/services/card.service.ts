@@ -0,0 +1,129 @@
+import mongoose from "mongoose";
+import { Currency } from "../config/currencies";
+import { Card } from "../models/Card";
+import { Transaction } from "../models/Transaction";
+import ledgerService from "./ledger.service";
+import paystackService, { PaystackChargeData } from "./wallet.service";
+
+const cardService = {
+  /**
+   * Save the card behind a successful charge so the user can be charged
+   * again without a redirect. A card already on file (same Paystack
+   * signature) is updated with the latest authorization.
+   */
+  async saveFromCharge(userId: string, data: PaystackChargeData) {
+    const authorization = data.authorization;
+    const email = data.customer?.email;
+
+    if (
+      !authorization?.authorization_code ||
+      !authorization.signature ||
+      authorization.channel !== "card" ||
+      !email
+    ) {
+      return null;
+    }
+
+    return Card.findOneAndUpdate(
+      { userId, signature: authorization.signature },
+      {
+        authorizationCode: authorization.authorization_code,
+        email,
+        brand: authorization.brand,
+        cardType: authorization.card_type?.trim(),
+        bin: authorization.bin,
+        last4: authorization.last4,
+        expMonth: authorization.exp_month,
+        expYear: authorization.exp_year,
+        bank: authorization.bank,
+        countryCode: authorization.country_code,
+        reusable: authorization.reusable,
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+  },
+
+  async list(userId: string) {
+    return Card.find({ userId }).sort({ updatedAt: -1 });
+  },
+
+  async get(userId: string, id: string) {
+    const card = mongoose.isValidObjectId(id)
+      ? await Card.findOne({ _id: id, userId })
+      : null;
+
+    if (!card) {
+      throw new Error("Card not found");
+    }
+    return card;
+  },
+
+  /**
+   * Remove a saved card. The authorization is deactivated on Paystack too;
+   * if that fails the card is still removed, since only this service can
+   * charge it.
+   */
+  async remove(userId: string, id: string) {
+    const card = await this.get(userId, id);
+
+    try {
+      await paystackService.deactivateAuthorization(card.authorizationCode);
+    } catch (error) {
+      console.error(`Failed to deactivate card ${card.id} on Paystack:`, error);
+    }
+
+    await card.deleteOne();
+    return card;
+  },
+
+  /**
+   * Start a deposit by charging a saved card. The pending deposit is saved
+   * before Paystack is called, so a webhook for the charge always finds it.
+   * Returns the deposit and Paystack's charge result; crediting the wallet
+   * is left to the caller (or the charge.success webhook). A fixed
+   * `reference` makes a repeated charge fail as a duplicate.
+   */
+  async charge(
+    userId: string,
+    cardId: string,
+    amount: number,
+    currency: Currency,
+    reference = paystackService.generateReference()
+  ) {
+    const card = await this.get(userId, cardId);
+
+    if (!card.reusable) {
+      throw new Error("This card cannot be charged again");
+    }
+
+    const transaction = await Transaction.create({
+      reference,
+      amount,
+      currency,
+      type: "deposit",
+      status: "pending",
+      userId,
+    });
+
+    let charge;
+    try {
+      charge = await paystackService.chargeAuthorization(
+        amount,
+        card.email,
+        card.authorizationCode,
+        transaction.reference,
+        currency
+      );
+    } catch (error) {
+      await ledgerService.transition(transaction, ["pending"], "failed");
+      throw error;
+    }
+
+    card.lastUsedAt = new Date();
+    await card.save();
+
+    return { transaction, charge };
+  },
+};
+
+export default cardService;
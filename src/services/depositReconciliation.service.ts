@@ -0,0 +1,129 @@
+import config from "../config";
+import { ITransaction, Transaction } from "../models/Transaction";
+import paystackService from "./wallet.service";
+import depositSettlementService from "./depositSettlement.service";
+import sandboxService from "./sandbox.service";
+
+type Outcome = "credited" | "failed" | "pending" | "skipped";
+
+export interface ReconciliationCounts {
+  checked: number;
+  credited: number; // Paid on Paystack and credited to the wallet here
+  failed: number; // Failed on Paystack, or abandoned past the cutoff
+  pending: number; // Still unpaid but within the cutoff
+  skipped: number; // Settled by the webhook or a status check meanwhile
+  errors: number; // Could not be verified; retried on a later run
+}
+
+export interface ReconciliationRun extends ReconciliationCounts {
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+const emptyCounts = (): ReconciliationCounts => ({
+  checked: 0,
+  credited: 0,
+  failed: 0,
+  pending: 0,
+  skipped: 0,
+  errors: 0,
+});
+
+/**
+ * Settle deposits whose webhook never arrived. Deposits still pending after
+ * `staleAfterMinutes` are verified with Paystack: paid ones are credited
+ * through the deposit settlement service (so the wallet is credited once
+ * even if the webhook turns up later) and ones left unpaid past
+ * `abandonAfterHours` are failed.
+ */
+const depositReconciliationService = {
+  // Counts kept by this process, for the admin endpoint
+  lastRun: undefined as ReconciliationRun | undefined,
+  totals: { runs: 0, ...emptyCounts() },
+
+  async run(now = new Date()) {
+    const { staleAfterMinutes, abandonAfterHours, batchSize } =
+      config.depositReconciliation;
+    const staleBefore = new Date(now.getTime() - staleAfterMinutes * 60 * 1000);
+    const abandonBefore = new Date(
+      now.getTime() - abandonAfterHours * 60 * 60 * 1000
+    );
+    const counts = emptyCounts();
+
+    while (counts.checked < batchSize) {
+      // Claiming a deposit stamps lastVerifiedAt, so other instances (and
+      // later runs) leave it alone until it is stale again
+      const deposit = await Transaction.findOneAndUpdate(
+        {
+          type: "deposit",
+          status: "pending",
+          createdAt: { $lte: staleBefore },
+          ...sandboxService.liveOnly(),
+          $or: [
+            { lastVerifiedAt: { $exists: false } },
+            { lastVerifiedAt: null },
+            { lastVerifiedAt: { $lte: staleBefore } },
+          ],
+        },
+        { lastVerifiedAt: now },
+        { new: true, sort: { createdAt: 1 } }
+      );
+
+      if (!deposit) {
+        break;
+      }
+
+      counts.checked += 1;
+      try {
+        counts[await this.reconcile(deposit, abandonBefore)] += 1;
+      } catch (error) {
+        counts.errors += 1;
+        console.error(
+          `Failed to reconcile deposit ${deposit.reference}:`,
+          error
+        );
+      }
+    }
+
+    const run: ReconciliationRun = {
+      ...counts,
+      startedAt: now,
+      finishedAt: new Date(),
+    };
+    this.lastRun = run;
+    this.totals.runs += 1;
+    for (const key of Object.keys(counts) as (keyof ReconciliationCounts)[]) {
+      this.totals[key] += counts[key];
+    }
+    return run;
+  },
+
+  async reconcile(
+    deposit: ITransaction,
+    abandonBefore: Date
+  ): Promise<Outcome> {
+    const paystackData = await paystackService.verifyTransaction(
+      deposit.reference
+    );
+
+    if (paystackData.status === "success") {
+      const result = await depositSettlementService.credit({
+        ...paystackData,
+        status: "success",
+      });
+      return result === "processed" ? "credited" : "skipped";
+    }
+
+    if (
+      paystackData.status === "failed" ||
+      deposit.createdAt <= abandonBefore
+    ) {
+      const result = await depositSettlementService.fail(deposit.reference);
+      return result === "processed" ? "failed" : "skipped";
+    }
+
+    return "pending";
+  },
+};
+
+export default depositReconciliationService;
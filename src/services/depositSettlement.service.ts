@@ -0,0 +1,196 @@
+import mongoose from "mongoose";
+import { ITransaction, Transaction } from "../models/Transaction";
+import { Wallet } from "../models/Wallet";
+import cardService from "./card.service";
+import ledgerService from "./ledger.service";
+import sandboxService from "./sandbox.service";
+import virtualAccountService from "./virtualAccount.service";
+import webhookDeliveryService from "./webhookDelivery.service";
+import paystackService, { PaystackChargeData } from "./wallet.service";
+
+export type SettlementResult = "processed" | "duplicate";
+
+/**
+ * The one place a deposit's outcome is applied. The webhook, the checkout
+ * callback, the status endpoint, saved-card charges and the reconciliation
+ * job all settle deposits through here, and every change is a guarded status
+ * transition (see ledgerService.transition), so whichever of them sees a
+ * payment first credits the wallet and the others get "duplicate".
+ */
+const depositSettlementService = {
+  /**
+   * Move a deposit to success and credit the owner's wallet. The card used
+   * is saved for later one-click deposits.
+   */
+  async credit(data: PaystackChargeData): Promise<SettlementResult> {
+    const { reference, amount, currency, paid_at } = data;
+
+    // Bank transfers into a virtual account have no deposit waiting for them
+    if (
+      data.channel === "dedicated_nuban" &&
+      !(await Transaction.exists({ reference }))
+    ) {
+      return this.creditBankTransfer(data);
+    }
+
+    const deposit = await this.findDeposit(reference);
+
+    if (currency && currency !== deposit.currency) {
+      throw new Error(
+        `Currency mismatch for ${reference}: expected ${deposit.currency}, got ${currency}`
+      );
+    }
+
+    const update: Record<string, unknown> = { amount };
+    if (paid_at) {
+      update.paidAt = new Date(paid_at);
+    }
+
+    const walletNumber = await this.findWalletNumber(deposit);
+    const applied = await ledgerService.transition(
+      deposit,
+      ["pending", "failed"],
+      "success",
+      (settled, session) =>
+        ledgerService.recordDeposit(settled, walletNumber, session),
+      update
+    );
+
+    if (applied) {
+      console.log(`Transaction ${reference} updated to success`);
+      await webhookDeliveryService.emitDeposit(
+        (await Transaction.findById(deposit._id)) ?? deposit,
+        walletNumber
+      );
+    }
+
+    // Saving is idempotent, so it runs even if the deposit was already
+    // settled by another path
+    if (deposit.userId) {
+      await cardService.saveFromCharge(deposit.userId, data);
+    }
+    return applied ? "processed" : "duplicate";
+  },
+
+  /**
+   * Record and credit a bank transfer into a wallet's virtual account. The
+   * deposit is created with Paystack's reference, so a second attempt hits
+   * the unique index and is reported as duplicate.
+   */
+  async creditBankTransfer(
+    data: PaystackChargeData
+  ): Promise<SettlementResult> {
+    const virtualAccount = await virtualAccountService.findForCharge(data);
+    if (!virtualAccount) {
+      throw new Error(`Virtual account for ${data.reference} not found`);
+    }
+
+    if (data.currency && data.currency !== virtualAccount.currency) {
+      throw new Error(
+        `Currency mismatch for ${data.reference}: expected ${virtualAccount.currency}, got ${data.currency}`
+      );
+    }
+
+    let deposit: ITransaction;
+    try {
+      deposit = await mongoose.connection.transaction(async (session) => {
+        const [created] = await Transaction.create(
+          [
+            {
+              reference: data.reference,
+              amount: data.amount,
+              currency: virtualAccount.currency,
+              type: "deposit",
+              status: "success",
+              userId: virtualAccount.userId,
+              paidAt: data.paid_at ? new Date(data.paid_at) : new Date(),
+            },
+          ],
+          { session }
+        );
+
+        await ledgerService.recordDeposit(
+          created,
+          virtualAccount.walletNumber,
+          session
+        );
+        return created;
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return "duplicate";
+      }
+      throw error;
+    }
+
+    console.log(
+      `Bank transfer ${data.reference} credited to wallet ${virtualAccount.walletNumber}`
+    );
+    await webhookDeliveryService.emitDeposit(
+      deposit,
+      virtualAccount.walletNumber
+    );
+    return "processed";
+  },
+
+  /**
+   * Mark a pending deposit as failed. A deposit that already succeeded is
+   * left alone.
+   */
+  async fail(reference: string): Promise<SettlementResult> {
+    const deposit = await this.findDeposit(reference);
+    const applied = await ledgerService.transition(
+      deposit,
+      ["pending"],
+      "failed"
+    );
+    return applied ? "processed" : "duplicate";
+  },
+
+  /**
+   * Verify a deposit with Paystack and apply the outcome. Returns
+   * "unchanged" while Paystack still has the payment open.
+   */
+  async syncWithPaystack(
+    deposit: ITransaction
+  ): Promise<SettlementResult | "unchanged"> {
+    // Paystack has never heard of sandbox deposits; they only settle through
+    // the sandbox checkout and simulate endpoints
+    if (sandboxService.isSandbox(deposit.userId)) {
+      return "unchanged";
+    }
+
+    const paystackData = await paystackService.verifyTransaction(
+      deposit.reference
+    );
+
+    if (paystackData.status === "success") {
+      return this.credit({ ...paystackData, status: "success" });
+    }
+    if (paystackData.status === "failed") {
+      return this.fail(deposit.reference);
+    }
+    return "unchanged";
+  },
+
+  async findDeposit(reference: string) {
+    const deposit = await Transaction.findOne({ reference, type: "deposit" });
+    if (!deposit) {
+      throw new Error(`Transaction with reference ${reference} not found`);
+    }
+    return deposit;
+  },
+
+  async findWalletNumber(deposit: ITransaction) {
+    const wallet = await Wallet.findOne({
+      userId: deposit.userId,
+      currency: deposit.currency,
+    });
+    if (!wallet) {
+      throw new Error(`Wallet for transaction ${deposit.reference} not found`);
+    }
+    return wallet.walletNumber;
+  },
+};
+
+export default depositSettlementService;
@@ -0,0 +1,165 @@
+import mongoose from "mongoose";
+import config from "../config";
+import { CURRENCIES, Currency } from "../config/currencies";
+import { FxQuote } from "../models/FxQuote";
+import { Transaction } from "../models/Transaction";
+import { Wallet } from "../models/Wallet";
+import { configuredRateSource } from "./fxRate.service";
+import ledgerService, { SYSTEM_ACCOUNTS } from "./ledger.service";
+import walletAccountService from "./walletAccount.service";
+
+const generateQuoteReference = (): string => {
+  const timestamp = Date.now();
+  const random = Math.random().toString(36).substring(2, 15);
+  return `FX_${timestamp}_${random}`.toUpperCase();
+};
+
+const fxService = {
+  /**
+   * Source of mid-market rates, from `FX_RATES_URL`. Quotes are refused
+   * while there is none.
+   */
+  rateSource: configuredRateSource(),
+
+  /**
+   * Price converting `amount` (minor units of `fromCurrency`) into
+   * `toCurrency`. The quoted amount is fixed until the quote expires.
+   */
+  async quote(
+    userId: string,
+    fromCurrency: Currency,
+    toCurrency: Currency,
+    amount: number
+  ) {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new Error("Amount must be a positive whole number of minor units");
+    }
+
+    if (fromCurrency === toCurrency) {
+      throw new Error("Cannot convert a currency to itself");
+    }
+
+    const rateSource = this.rateSource;
+    if (!rateSource) {
+      throw new Error("Exchange rates are unavailable");
+    }
+
+    const midRate = await rateSource.getRate(fromCurrency, toCurrency);
+    const spreadBps = config.fx.spreadBps;
+    const rate = midRate * (1 - spreadBps / 10000);
+
+    // Convert through major units so currencies with different minor units
+    // are handled correctly, and round down in the platform's favour
+    const toAmount = Math.floor(
+      (amount / 10 ** CURRENCIES[fromCurrency].decimals) *
+        rate *
+        10 ** CURRENCIES[toCurrency].decimals
+    );
+
+    if (toAmount < 1) {
+      throw new Error("Amount is too small to convert");
+    }
+
+    return FxQuote.create({
+      reference: generateQuoteReference(),
+      userId,
+      fromCurrency,
+      toCurrency,
+      fromAmount: amount,
+      toAmount,
+      midRate,
+      rate,
+      spreadBps,
+      rateSource: rateSource.name,
+      expiresAt: new Date(Date.now() + config.fx.quoteTtlSeconds * 1000),
+    });
+  },
+
+  /**
+   * Execute a quote: debit the source wallet and credit the destination
+   * wallet through the FX system account. The quote is claimed in the same
+   * MongoDB transaction as the postings, so it can only be executed once.
+   */
+  async convert(userId: string, quoteId: string) {
+    const quote = mongoose.isValidObjectId(quoteId)
+      ? await FxQuote.findOne({ _id: quoteId, userId })
+      : null;
+
+    if (!quote) {
+      throw new Error("Quote not found");
+    }
+
+    if (quote.status !== "open") {
+      throw new Error("Quote has already been used");
+    }
+
+    if (quote.expiresAt <= new Date()) {
+      throw new Error("Quote has expired");
+    }
+
+    const fromWallet = await Wallet.findOne({
+      userId,
+      currency: quote.fromCurrency,
+    });
+    if (!fromWallet) {
+      throw new Error("Wallet not found for this user");
+    }
+
+    const toWallet = await walletAccountService.open(userId, quote.toCurrency);
+
+    return mongoose.connection.transaction(async (session) => {
+      const now = new Date();
+      const claimed = await FxQuote.findOneAndUpdate(
+        { _id: quote._id, status: "open", expiresAt: { $gt: now } },
+        { status: "executed", executedAt: now },
+        { session, new: true }
+      );
+      if (!claimed) {
+        throw new Error("Quote has already been used");
+      }
+
+      const [debit, credit] = await Transaction.create(
+        [
+          {
+            reference: `${quote.reference}_OUT`,
+            amount: quote.fromAmount,
+            currency: quote.fromCurrency,
+            type: "conversion",
+            status: "success",
+            senderId: userId,
+            relatedReference: quote.reference,
+            paidAt: now,
+          },
+          {
+            reference: `${quote.reference}_IN`,
+            amount: quote.toAmount,
+            currency: quote.toCurrency,
+            type: "conversion",
+            status: "success",
+            receiverId: userId,
+            relatedReference: quote.reference,
+            paidAt: now,
+          },
+        ],
+        { session, ordered: true }
+      );
+
+      await ledgerService.post(
+        debit,
+        fromWallet.walletNumber,
+        SYSTEM_ACCOUNTS.fx,
+        session
+      );
+      await ledgerService.post(
+        credit,
+        SYSTEM_ACCOUNTS.fx,
+        toWallet.walletNumber,
+        session
+      );
+
+      return { quote: claimed, debit, credit };
+    });
+  },
+};
+
+export default fxService;
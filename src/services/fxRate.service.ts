@@ -0,0 +1,86 @@
+import axios from "axios";
+import config from "../config";
+import { Currency } from "../config/currencies";
+
+/**
+ * Where mid-market exchange rates come from. Swap the source used by the FX
+ * service to plug in a live rate provider.
+ */
+export interface RateSource {
+  name: string;
+  /**
+   * Major units of `to` per major unit of `from`
+   */
+  getRate(from: Currency, to: Currency): Promise<number>;
+}
+
+// Units of each currency per US dollar
+const USD_RATES: Record<Currency, number> = {
+  USD: 1,
+  NGN: 1550,
+  GHS: 15.5,
+  KES: 129,
+  ZAR: 18.2,
+};
+
+/**
+ * Fixed local rate table, for tests only: live quotes are refused rather
+ * than priced from it
+ */
+export const staticRateSource: RateSource = {
+  name: "static",
+
+  async getRate(from: Currency, to: Currency) {
+    return USD_RATES[to] / USD_RATES[from];
+  },
+};
+
+let cachedRates: { rates: Record<string, number>; fetchedAt: number } | null =
+  null;
+
+/**
+ * Rates fetched from `FX_RATES_URL`, which must return JSON with a `rates`
+ * object of units per unit of one base currency (the format of Open Exchange
+ * Rates and similar providers). Responses are cached for
+ * `FX_RATES_CACHE_SECONDS`.
+ */
+export const httpRateSource: RateSource = {
+  name: "http",
+
+  async getRate(from: Currency, to: Currency) {
+    const maxAgeMs = config.fx.ratesCacheSeconds * 1000;
+    if (!cachedRates || Date.now() - cachedRates.fetchedAt > maxAgeMs) {
+      try {
+        const response = await axios.get<{ rates?: Record<string, number> }>(
+          config.fx.ratesUrl,
+          { timeout: 10000 }
+        );
+        if (!response.data?.rates) {
+          throw new Error("Response has no rates");
+        }
+        cachedRates = { rates: response.data.rates, fetchedAt: Date.now() };
+      } catch (error) {
+        console.error("Failed to fetch exchange rates:", error);
+        throw new Error("Exchange rates are unavailable");
+      }
+    }
+
+    const fromRate = cachedRates.rates[from];
+    const toRate = cachedRates.rates[to];
+    if (!(fromRate > 0) || !(toRate > 0)) {
+      throw new Error("Exchange rates are unavailable");
+    }
+    return toRate / fromRate;
+  },
+};
+
+/**
+ * The provider set by `FX_RATES_URL`. Without one there is no source outside
+ * tests, and conversions are refused.
+ */
+export const configuredRateSource = (): RateSource | undefined => {
+  if (config.fx.ratesUrl) {
+    return httpRateSource;
+  }
+  return config.nodeEnv === "test" ? staticRateSource : undefined;
+};
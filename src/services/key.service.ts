@@ -1,33 +1,119 @@
 import crypto from "crypto";
-import { Key } from "../models/Key";
+import mongoose, { ClientSession } from "mongoose";
+import {
+  Currency,
+  DEFAULT_CURRENCY,
+  formatAmount,
+  isSupportedCurrency,
+} from "../config/currencies";
+import { IKey, IKeyLimits, Key } from "../models/Key";
+import { KeyUsage } from "../models/KeyUsage";
+import { Transaction } from "../models/Transaction";
+import keySecurityService from "./keySecurity.service";
+
+/**
+ * A transfer or withdrawal about to be made with an API key
+ */
+export interface KeyPayment {
+  amount: number;
+  currency: Currency;
+  recipientWalletNumber?: string; // Set for wallet transfers
+}
+
+const LIMIT_AMOUNT_FIELDS = [
+  ["max_per_transaction", "maxPerTransaction"],
+  ["daily_limit", "dailyLimit"],
+  ["monthly_limit", "monthlyLimit"],
+] as const;
+
+/**
+ * Optional restrictions copied onto a key when it is created or rolled over
+ */
+export type KeySettings = Partial<
+  Pick<
+    IKey,
+    "mode" | "limits" | "allowedIps" | "signingSecret" | "rotatedFromId"
+  >
+>;
+
+/**
+ * Identifies a key either by its plaintext value or by its ID
+ */
+export interface KeyRef {
+  apiKey?: string;
+  keyId?: string;
+}
+
+export type KeyStatus = "active" | "expired" | "revoked";
+
+// Characters of the plaintext key kept for display ("sk_live_a1b2...")
+const PREFIX_LENGTH = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const limitExceeded = (reason: string) =>
+  new Error(`API key limit exceeded: ${reason}`);
 
 const keyService = {
   async createKey(
     userId: string,
     name: string,
     permissions: string[],
-    expiry: string
+    expiry: string,
+    settings: KeySettings = {}
   ) {
     const randomKey = crypto.randomBytes(32).toString("hex");
-    const key = `sk_live_${randomKey}`;
+    const mode = settings.mode || "live";
+    const key = `sk_${mode}_${randomKey}`;
     const keyHash = crypto.createHash("sha256").update(key).digest("hex");
 
     const createdKey = await Key.create({
       userId: userId,
       keyHash: keyHash,
+      prefix: key.slice(0, PREFIX_LENGTH),
       name: name,
+      mode,
       permissions: permissions,
       expiresAt: calculateExpiry(expiry),
       isRevoked: false,
+      limits: settings.limits,
+      allowedIps: settings.allowedIps,
+      signingSecret: settings.signingSecret,
+      rotatedFromId: settings.rotatedFromId,
     });
     return { createdKey, key };
   },
 
+  /**
+   * Issue a key with the same name, permissions and restrictions as
+   * `existingKey`, linked back to it
+   */
+  async createReplacement(existingKey: IKey, expiry: string) {
+    return this.createKey(
+      existingKey.userId,
+      existingKey.name,
+      existingKey.permissions,
+      expiry,
+      {
+        mode: existingKey.mode,
+        limits: existingKey.limits,
+        allowedIps: existingKey.allowedIps,
+        signingSecret: existingKey.signingSecret,
+        rotatedFromId: existingKey.id,
+      }
+    );
+  },
+
+  /**
+   * Keys being rotated out do not count: they are revoked once their grace
+   * period ends
+   */
   async countActiveKeys(userId: string) {
     const activeKeys = await Key.countDocuments({
       userId: userId,
       isRevoked: false,
       expiresAt: { $gt: new Date() },
+      graceEndsAt: { $exists: false },
     });
     return activeKeys;
   },
@@ -48,17 +134,51 @@ const keyService = {
       throw new Error("Expired key not found or already revoked");
     }
 
+    return this.rollover(existingKey, expiry);
+  },
+
+  async rolloverKeyById(userId: string, id: string, expiry: string) {
+    const existingKey = await this.getKey(userId, id).catch(() => null);
+
+    if (!existingKey || existingKey.isRevoked) {
+      throw new Error("Expired key not found or already revoked");
+    }
+
+    return this.rollover(existingKey, expiry);
+  },
+
+  /**
+   * Revoke an expired key and issue a replacement with the same name,
+   * permissions and restrictions. If the replacement cannot be issued, the
+   * old key is left as it was.
+   */
+  async rollover(existingKey: IKey, expiry: string) {
     if (existingKey.expiresAt > new Date()) {
       throw new Error("Key has not yet expired");
     }
-    existingKey.isRevoked = true;
-    await existingKey.save();
-    return this.createKey(
-      userId,
-      existingKey.name,
-      existingKey.permissions,
-      expiry
+
+    // Revoking claims the key, so two concurrent rollovers cannot both
+    // issue a replacement
+    const claimed = await Key.findOneAndUpdate(
+      { _id: existingKey._id, isRevoked: false },
+      { isRevoked: true },
+      { new: true }
     );
+    if (!claimed) {
+      throw new Error("Expired key not found or already revoked");
+    }
+
+    let replacement;
+    try {
+      replacement = await this.createReplacement(claimed, expiry);
+    } catch (error) {
+      await Key.updateOne({ _id: claimed._id }, { isRevoked: false });
+      throw error;
+    }
+
+    claimed.rotatedToId = replacement.createdKey.id;
+    await claimed.save();
+    return replacement;
   },
 
   async revokeKey(userId: string, apiKey: string) {
@@ -79,6 +199,351 @@ const keyService = {
 
     return existingKey;
   },
+
+  async revokeKeyById(userId: string, id: string) {
+    const existingKey = await this.findActiveKey(userId, { keyId: id });
+    existingKey.isRevoked = true;
+    return existingKey.save();
+  },
+
+  /**
+   * All of a user's keys, newest first, including expired and revoked ones
+   */
+  async list(userId: string) {
+    return Key.find({ userId }).sort({ createdAt: -1 });
+  },
+
+  async getKey(userId: string, id: string) {
+    const key = mongoose.isValidObjectId(id)
+      ? await Key.findOne({ _id: id, userId })
+      : null;
+
+    if (!key) {
+      throw new Error("API key not found");
+    }
+    return key;
+  },
+
+  status(key: IKey, now = new Date()): KeyStatus {
+    if (key.isRevoked || (key.graceEndsAt && key.graceEndsAt <= now)) {
+      return "revoked";
+    }
+    return key.expiresAt <= now ? "expired" : "active";
+  },
+
+  /**
+   * Count an authenticated request against the key. Called without being
+   * awaited so the request does not wait for the writes; both are single
+   * in-place updates.
+   */
+  async recordUsage(key: IKey, ip: string | undefined) {
+    const now = new Date();
+    await Promise.all([
+      Key.updateOne(
+        { _id: key._id },
+        { $set: { lastUsedAt: now, lastUsedIp: ip } }
+      ),
+      KeyUsage.updateOne(
+        { keyId: key.id, date: now.toISOString().slice(0, 10) },
+        { $inc: { count: 1 }, $setOnInsert: { userId: key.userId } },
+        { upsert: true }
+      ),
+    ]);
+  },
+
+  /**
+   * Requests per UTC day over the last `days` days, oldest first. Days
+   * without requests are included with a count of 0.
+   */
+  async getUsage(userId: string, id: string, days: number) {
+    const key = await this.getKey(userId, id);
+
+    const now = Date.now();
+    const dates = Array.from({ length: days }, (_, i) =>
+      new Date(now - (days - 1 - i) * DAY_MS).toISOString().slice(0, 10)
+    );
+
+    const usage = await KeyUsage.find({
+      keyId: key.id,
+      date: { $gte: dates[0] },
+    });
+    const counts = new Map(usage.map((day) => [day.date, day.count]));
+
+    return {
+      key,
+      days: dates.map((date) => ({ date, count: counts.get(date) || 0 })),
+    };
+  },
+
+  /**
+   * Replace the spending limits of one of the user's active keys. `null`
+   * removes them.
+   */
+  async setLimits(userId: string, ref: KeyRef, limits: IKeyLimits | null) {
+    const existingKey = await this.findActiveKey(userId, ref);
+    existingKey.limits = limits || undefined;
+    return existingKey.save();
+  },
+
+  /**
+   * Change a key's IP allowlist (`null` removes it) and turn signed requests
+   * on or off. Turning them on issues a new signing secret, returned once.
+   */
+  async setSecurity(
+    userId: string,
+    ref: KeyRef,
+    changes: { allowedIps?: string[] | null; signedRequests?: boolean }
+  ) {
+    const existingKey = await this.findActiveKey(userId, ref);
+
+    if (changes.allowedIps !== undefined) {
+      existingKey.allowedIps = changes.allowedIps || undefined;
+    }
+
+    let signingSecret: string | undefined;
+    if (changes.signedRequests === true) {
+      signingSecret = keySecurityService.generateSigningSecret();
+      existingKey.signingSecret = signingSecret;
+    } else if (changes.signedRequests === false) {
+      existingKey.signingSecret = undefined;
+    }
+
+    return { key: await existingKey.save(), signingSecret };
+  },
+
+  /**
+   * One of the user's unrevoked keys, by plaintext key or by ID
+   */
+  async findActiveKey(userId: string, ref: KeyRef) {
+    const filter: Record<string, unknown> = { userId, isRevoked: false };
+    if (ref.keyId) {
+      filter._id = mongoose.isValidObjectId(ref.keyId) ? ref.keyId : null;
+    } else {
+      filter.keyHash = crypto
+        .createHash("sha256")
+        .update(ref.apiKey || "")
+        .digest("hex");
+    }
+
+    const existingKey = await Key.findOne(filter);
+
+    if (!existingKey) {
+      throw new Error("API key not found or already revoked");
+    }
+    return existingKey;
+  },
+
+  /**
+   * Validate limits as sent to the API (snake_case). Returns undefined for
+   * undefined and null for null, so callers can tell "not given" from
+   * "remove".
+   */
+  parseLimits(input: unknown): IKeyLimits | null | undefined {
+    if (input === undefined || input === null) {
+      return input;
+    }
+
+    if (typeof input !== "object" || Array.isArray(input)) {
+      throw new Error("Limits must be an object");
+    }
+
+    const raw = input as Record<string, unknown>;
+    const currency = raw.currency ?? DEFAULT_CURRENCY;
+    if (!isSupportedCurrency(currency)) {
+      throw new Error("Unsupported currency");
+    }
+
+    const limits: IKeyLimits = { currency };
+    for (const [field, key] of LIMIT_AMOUNT_FIELDS) {
+      const value = raw[field];
+      if (value === undefined || value === null) {
+        continue;
+      }
+      if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+        throw new Error(
+          `${field} must be a positive whole number of minor units`
+        );
+      }
+      limits[key] = value;
+    }
+
+    if (
+      raw.allowed_recipients !== undefined &&
+      raw.allowed_recipients !== null
+    ) {
+      if (
+        !Array.isArray(raw.allowed_recipients) ||
+        raw.allowed_recipients.some(
+          (walletNumber) =>
+            typeof walletNumber !== "string" || !walletNumber.trim()
+        )
+      ) {
+        throw new Error("allowed_recipients must be a list of wallet numbers");
+      }
+      limits.allowedRecipients = [
+        ...new Set(raw.allowed_recipients as string[]),
+      ];
+    }
+
+    return limits;
+  },
+
+  /**
+   * Check one payment against a key's per-payment limits: its currency, the
+   * per-transaction maximum and the recipient allow-list (wallet transfers
+   * only).
+   */
+  checkLimits(key: IKey, payment: KeyPayment) {
+    const limits = key.limits;
+    if (!limits) {
+      return;
+    }
+
+    if (payment.currency !== limits.currency) {
+      throw limitExceeded(`this key can only move ${limits.currency}`);
+    }
+
+    if (limits.maxPerTransaction && payment.amount > limits.maxPerTransaction) {
+      throw limitExceeded(
+        `the maximum per transaction is ${formatAmount(
+          limits.maxPerTransaction,
+          limits.currency
+        )} ${limits.currency}`
+      );
+    }
+
+    if (
+      payment.recipientWalletNumber &&
+      limits.allowedRecipients &&
+      !limits.allowedRecipients.includes(payment.recipientWalletNumber)
+    ) {
+      throw limitExceeded(
+        `wallet ${payment.recipientWalletNumber} is not an allowed recipient`
+      );
+    }
+  },
+
+  /**
+   * Enforce all of a key's limits for a payment made inside `session`'s
+   * transaction. The key is written first, so concurrent payments with the
+   * same key conflict and are retried one after the other, and the daily and
+   * monthly caps always see each other's spending. Keys it was rotated or
+   * rolled over from or to share its caps and are written too, so a key and
+   * its replacement cannot each spend a full cap during the grace period.
+   */
+  async enforceLimits(
+    keyId: string,
+    payment: KeyPayment,
+    session: ClientSession
+  ) {
+    const key = await Key.findOneAndUpdate(
+      { _id: keyId },
+      { $set: { lastSpentAt: new Date() } },
+      { new: true, session }
+    );
+    if (!key?.limits) {
+      return;
+    }
+
+    this.checkLimits(key, payment);
+
+    const keyIds = await this.rotationChain(key, session);
+    await Key.updateMany(
+      { _id: { $in: keyIds.filter((id) => id !== key.id) } },
+      { $set: { lastSpentAt: new Date() } },
+      { session }
+    );
+
+    const now = new Date();
+    const caps = [
+      {
+        name: "daily",
+        limit: key.limits.dailyLimit,
+        since: new Date(
+          Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+        ),
+      },
+      {
+        name: "monthly",
+        limit: key.limits.monthlyLimit,
+        since: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      },
+    ];
+
+    for (const cap of caps) {
+      if (!cap.limit) {
+        continue;
+      }
+
+      const spent = await this.spentSince(
+        keyIds,
+        key.limits.currency,
+        cap.since,
+        session
+      );
+      if (spent + payment.amount > cap.limit) {
+        throw limitExceeded(
+          `the ${cap.name} limit of ${formatAmount(
+            cap.limit,
+            key.limits.currency
+          )} ${key.limits.currency} would be exceeded (${formatAmount(
+            spent,
+            key.limits.currency
+          )} already spent)`
+        );
+      }
+    }
+  },
+
+  /**
+   * Ids of `key` and every key it was rotated or rolled over from or to,
+   * following the links in both directions
+   */
+  async rotationChain(key: IKey, session?: ClientSession) {
+    const ids = [key.id as string];
+    const walk = async (
+      next: string | undefined,
+      link: "rotatedFromId" | "rotatedToId"
+    ) => {
+      while (next && !ids.includes(next)) {
+        ids.push(next);
+        const linked: IKey | null = await Key.findById(next).session(
+          session || null
+        );
+        next = linked?.[link];
+      }
+    };
+
+    await walk(key.rotatedFromId, "rotatedFromId");
+    await walk(key.rotatedToId, "rotatedToId");
+    return ids;
+  },
+
+  /**
+   * Transfers and withdrawals made with any of `keyIds` since `since`.
+   * Pending withdrawals count; failed and reversed ones do not.
+   */
+  async spentSince(
+    keyIds: string[],
+    currency: Currency,
+    since: Date,
+    session?: ClientSession
+  ) {
+    const [result] = await Transaction.aggregate<{ total: number }>([
+      {
+        $match: {
+          apiKeyId: { $in: keyIds },
+          createdAt: { $gte: since },
+          type: { $in: ["transfer", "withdrawal"] },
+          status: { $in: ["pending", "success"] },
+          currency,
+        },
+      },
+      { $group: { _id: null, total: { $sum: "$amount" } } },
+    ]).session(session || null);
+
+    return result?.total || 0;
+  },
 };
 
 function calculateExpiry(expiry: string): Date {
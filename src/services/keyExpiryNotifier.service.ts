@@ -0,0 +1,37 @@
+import { IKey } from "../models/Key";
+import webhookDeliveryService from "./webhookDelivery.service";
+
+/**
+ * Where API key expiry warnings go. Swap the notifier used by the key
+ * rotation service to send them by email or to a chat channel instead.
+ */
+export interface KeyExpiryNotifier {
+  name: string;
+  /**
+   * Warn the key's owner that it expires within `daysLeft` days
+   */
+  notify(key: IKey, daysLeft: number): Promise<void>;
+}
+
+/**
+ * key.expiring to the owner's webhook endpoints, once per warning threshold
+ */
+export const webhookKeyExpiryNotifier: KeyExpiryNotifier = {
+  name: "webhook",
+
+  async notify(key: IKey, daysLeft: number) {
+    await webhookDeliveryService.emit(
+      key.userId,
+      "key.expiring",
+      `key.expiring:${key.id}:${daysLeft}d`,
+      {
+        id: key.id,
+        name: key.name,
+        mode: key.mode,
+        permissions: key.permissions,
+        expires_at: key.expiresAt,
+        days_left: daysLeft,
+      }
+    );
+  },
+};
@@ -0,0 +1,161 @@
+import config from "../config";
+import { Key } from "../models/Key";
+import keyService from "./key.service";
+import {
+  KeyExpiryNotifier,
+  webhookKeyExpiryNotifier,
+} from "./keyExpiryNotifier.service";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Rotation of API keys before they expire. Rotating issues a replacement
+ * straight away and leaves the old key working for a grace period, so
+ * integrations can switch over without downtime; the worker revokes it once
+ * the grace period ends. Owners are warned ahead of expiry through a
+ * pluggable notifier.
+ */
+const keyRotationService = {
+  notifier: webhookKeyExpiryNotifier as KeyExpiryNotifier,
+
+  /**
+   * Validate a grace period from a request, defaulting to `graceHours`
+   */
+  parseGraceHours(value: unknown) {
+    const { graceHours, maxGraceHours } = config.keyRotation;
+    if (value === undefined || value === null) {
+      return graceHours;
+    }
+
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < 0 ||
+      value > maxGraceHours
+    ) {
+      throw new Error(
+        `grace_hours must be a whole number from 0 to ${maxGraceHours}`
+      );
+    }
+    return value;
+  },
+
+  /**
+   * Issue a replacement for an active key. The old key keeps working for
+   * `graceHours` (never past its own expiry), or stops at once when 0.
+   */
+  async rotate(userId: string, id: string, expiry: string, graceHours: number) {
+    const now = new Date();
+    const existingKey = await keyService.getKey(userId, id);
+
+    if (existingKey.isRevoked || existingKey.expiresAt <= now) {
+      throw new Error(
+        "Only active keys can be rotated; roll over expired keys instead"
+      );
+    }
+
+    // Setting the grace period claims the key, so two concurrent rotations
+    // cannot both issue a replacement
+    const graceEndsAt = new Date(
+      Math.min(
+        existingKey.expiresAt.getTime(),
+        now.getTime() + graceHours * HOUR_MS
+      )
+    );
+    const claimed = await Key.findOneAndUpdate(
+      {
+        _id: existingKey._id,
+        isRevoked: false,
+        graceEndsAt: { $exists: false },
+      },
+      { graceEndsAt },
+      { new: true }
+    );
+    if (!claimed) {
+      throw new Error("Key has already been rotated");
+    }
+
+    let replacement;
+    try {
+      replacement = await keyService.createReplacement(claimed, expiry);
+    } catch (error) {
+      await Key.updateOne({ _id: claimed._id }, { $unset: { graceEndsAt: 1 } });
+      throw error;
+    }
+
+    claimed.rotatedToId = replacement.createdKey.id;
+    if (graceHours === 0) {
+      claimed.isRevoked = true;
+    }
+    await claimed.save();
+
+    return { ...replacement, previousKey: claimed };
+  },
+
+  /**
+   * Revoke rotated keys whose grace period is over
+   */
+  async revokeRotated(now = new Date()) {
+    const result = await Key.updateMany(
+      { isRevoked: false, graceEndsAt: { $lte: now } },
+      { isRevoked: true }
+    );
+    return result.modifiedCount;
+  },
+
+  /**
+   * Warn owners of active keys that cross one of the `warningDays`
+   * thresholds. Each threshold is sent once per key; a key found inside
+   * several at once (say, created to expire in a day) only gets the nearest.
+   * Keys already being rotated out are skipped.
+   */
+  async sendExpiryWarnings(now = new Date()) {
+    const thresholds = [...new Set(config.keyRotation.warningDays)].sort(
+      (a, b) => a - b
+    );
+    let sent = 0;
+
+    for (const days of thresholds) {
+      for (;;) {
+        const key = await Key.findOneAndUpdate(
+          {
+            isRevoked: false,
+            graceEndsAt: { $exists: false },
+            expiresAt: {
+              $gt: now,
+              $lte: new Date(now.getTime() + days * DAY_MS),
+            },
+            expiryWarningsSent: { $ne: days },
+          },
+          {
+            $addToSet: {
+              expiryWarningsSent: {
+                $each: thresholds.filter((threshold) => threshold >= days),
+              },
+            },
+          },
+          { new: true }
+        );
+
+        if (!key) {
+          break;
+        }
+
+        try {
+          await this.notifier.notify(key, days);
+          sent += 1;
+        } catch (error) {
+          console.error(
+            `Failed to send ${days}-day expiry warning for key ${key.id}:`,
+            error
+          );
+        }
+      }
+    }
+
+    return sent;
+  },
+};
+
+export default keyRotationService;
@@ -0,0 +1,176 @@
+import crypto from "crypto";
+import net from "net";
+import config from "../config";
+import { IKey } from "../models/Key";
+import { RequestNonce } from "../models/RequestNonce";
+
+const MAX_NONCE_LENGTH = 128;
+
+/**
+ * The parts of a request a client signs
+ */
+export interface SignedRequest {
+  method: string;
+  path: string; // Path and query string as sent, e.g. /wallet/transactions?page=2
+  body: string; // Raw body, empty when there is none
+  timestamp?: string; // x-timestamp: Unix time in seconds
+  nonce?: string; // x-nonce: unique per request
+  signature?: string; // x-signature: hex HMAC-SHA512 of stringToSign
+}
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix Node reports for IPv4 clients on a
+ * dual-stack socket
+ */
+const normalizeIp = (ip: string) =>
+  ip.startsWith("::ffff:") && net.isIPv4(ip.slice(7)) ? ip.slice(7) : ip;
+
+const parseEntry = (entry: string) => {
+  const [address, prefix, ...rest] = entry.trim().split("/");
+  const version = net.isIP(address);
+  const bits = version === 4 ? 32 : 128;
+  const length = prefix === undefined ? bits : Number(prefix);
+
+  if (
+    !version ||
+    rest.length > 0 ||
+    !Number.isInteger(length) ||
+    length < 0 ||
+    length > bits ||
+    (prefix !== undefined && !/^\d+$/.test(prefix))
+  ) {
+    return undefined;
+  }
+  return {
+    address,
+    prefix: length,
+    type: (version === 4 ? "ipv4" : "ipv6") as "ipv4" | "ipv6",
+  };
+};
+
+/**
+ * Optional hardening for API keys beyond the secret itself: an allowlist of
+ * client IPs, and signed requests that cannot be replayed.
+ */
+const keySecurityService = {
+  /**
+   * Validate an allowlist of IPs and CIDR ranges ("203.0.113.7",
+   * "10.0.0.0/8", "2001:db8::/32")
+   */
+  parseAllowedIps(input: unknown): string[] {
+    if (
+      !Array.isArray(input) ||
+      input.length === 0 ||
+      input.some(
+        (entry) => typeof entry !== "string" || !parseEntry(entry as string)
+      )
+    ) {
+      throw new Error(
+        "allowed_ips must be a non-empty list of IP addresses or CIDR ranges"
+      );
+    }
+    return [...new Set((input as string[]).map((entry) => entry.trim()))];
+  },
+
+  /**
+   * Whether `ip` is in the key's allowlist. Keys without one allow any IP.
+   */
+  isIpAllowed(key: IKey, ip: string | undefined) {
+    if (!key.allowedIps?.length) {
+      return true;
+    }
+    if (!ip) {
+      return false;
+    }
+
+    const list = new net.BlockList();
+    for (const entry of key.allowedIps) {
+      const parsed = parseEntry(entry);
+      if (parsed) {
+        list.addSubnet(parsed.address, parsed.prefix, parsed.type);
+      }
+    }
+
+    const address = normalizeIp(ip);
+    return list.check(address, net.isIPv4(address) ? "ipv4" : "ipv6");
+  },
+
+  generateSigningSecret() {
+    return `ssk_${crypto.randomBytes(32).toString("hex")}`;
+  },
+
+  /**
+   * Canonical string a client signs: timestamp, nonce, upper-case method,
+   * path with query string and raw body, joined by newlines
+   */
+  stringToSign(request: SignedRequest) {
+    return [
+      request.timestamp,
+      request.nonce,
+      request.method.toUpperCase(),
+      request.path,
+      request.body,
+    ].join("\n");
+  },
+
+  /**
+   * Check a request made with a key that requires signing. The timestamp
+   * must be within `signatureToleranceSeconds` of the server clock and the
+   * nonce unused, so a captured request cannot be sent again. Throws with
+   * the reason when the request is rejected.
+   */
+  async verifyRequest(key: IKey, request: SignedRequest) {
+    if (!key.signingSecret) {
+      return;
+    }
+
+    const { timestamp, nonce, signature } = request;
+    if (!timestamp || !nonce || !signature) {
+      throw new Error(
+        "This API key requires signed requests: send x-timestamp, x-nonce and x-signature"
+      );
+    }
+
+    const tolerance = config.apiKeys.signatureToleranceSeconds;
+    const seconds = Number(timestamp);
+    if (
+      !/^\d+$/.test(timestamp) ||
+      Math.abs(Date.now() / 1000 - seconds) > tolerance
+    ) {
+      throw new Error("Request timestamp is missing or too old");
+    }
+
+    if (nonce.length > MAX_NONCE_LENGTH) {
+      throw new Error(`Nonce must be at most ${MAX_NONCE_LENGTH} characters`);
+    }
+
+    const expected = crypto
+      .createHmac("sha512", key.signingSecret)
+      .update(this.stringToSign(request))
+      .digest("hex");
+
+    if (
+      signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new Error("Invalid request signature");
+    }
+
+    // Only stored once the signature is valid, so forged requests cannot
+    // burn a client's nonces. Kept past the tolerance window on both sides.
+    try {
+      await RequestNonce.create({
+        keyId: key.id,
+        nonce,
+        expiresAt: new Date((seconds + tolerance) * 1000 + 60 * 1000),
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        throw new Error("Nonce has already been used");
+      }
+      throw error;
+    }
+  },
+};
+
+export default keySecurityService;
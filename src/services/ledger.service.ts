@@ -0,0 +1,247 @@
+import mongoose, { ClientSession } from "mongoose";
+import { Currency } from "../config/currencies";
+import { LedgerEntry } from "../models/LedgerEntry";
+import {
+  ITransaction,
+  Transaction,
+  TransactionStatus,
+} from "../models/Transaction";
+import { IWallet, Wallet } from "../models/Wallet";
+import sandboxService from "./sandbox.service";
+
+/**
+ * Accounts that sit outside customer wallets. Money entering or leaving the
+ * system is posted against one of these so every entry has a matching leg.
+ */
+export const SYSTEM_ACCOUNTS = {
+  paystack: "SYSTEM_PAYSTACK",
+  disputes: "SYSTEM_DISPUTES", // Funds held while a chargeback is open
+  payouts: "SYSTEM_PAYOUTS", // Funds held while a Paystack transfer is pending
+  fx: "SYSTEM_FX", // Counterparty for both legs of a currency conversion
+  sandbox: "SYSTEM_SANDBOX", // Source of sandbox deposits; never real money
+};
+
+const isSystemAccount = (account: string): boolean =>
+  Object.values(SYSTEM_ACCOUNTS).includes(account);
+
+/**
+ * Write the debit and credit legs of a transaction. `createdAt` backdates
+ * them; by default they are dated now.
+ */
+const insertLegs = (
+  transaction: ITransaction,
+  debitAccount: string,
+  creditAccount: string,
+  session?: ClientSession,
+  createdAt?: Date
+) => {
+  const { amount, currency } = transaction;
+
+  return LedgerEntry.insertMany(
+    [
+      {
+        transactionId: transaction.id,
+        reference: transaction.reference,
+        account: debitAccount,
+        direction: "debit",
+        amount,
+        currency,
+        createdAt,
+      },
+      {
+        transactionId: transaction.id,
+        reference: transaction.reference,
+        account: creditAccount,
+        direction: "credit",
+        amount,
+        currency,
+        createdAt,
+      },
+    ],
+    { session }
+  );
+};
+
+/**
+ * Double-entry ledger. This is the only code allowed to change
+ * `Wallet.balance`: every movement posts a debit leg on the paying account and
+ * a credit leg on the receiving account for the same transaction.
+ */
+const ledgerService = {
+  /**
+   * Move `transaction.amount` from `debitAccount` to `creditAccount`. Pass a
+   * session to commit the postings together with the caller's other writes.
+   * Wallets only match when they hold the transaction's currency.
+   */
+  async post(
+    transaction: ITransaction,
+    debitAccount: string,
+    creditAccount: string,
+    session?: ClientSession
+  ) {
+    const { amount, currency } = transaction;
+
+    if (!amount || amount <= 0) {
+      throw new Error("Ledger amount must be a positive number");
+    }
+
+    if (debitAccount === creditAccount) {
+      throw new Error("Ledger accounts must be different");
+    }
+
+    if (!isSystemAccount(debitAccount)) {
+      const debited = await Wallet.findOneAndUpdate(
+        { walletNumber: debitAccount, currency, balance: { $gte: amount } },
+        { $inc: { balance: -amount } },
+        { session }
+      );
+      if (!debited) {
+        throw new Error("Insufficient balance");
+      }
+    }
+
+    if (!isSystemAccount(creditAccount)) {
+      const credited = await Wallet.findOneAndUpdate(
+        { walletNumber: creditAccount, currency },
+        { $inc: { balance: amount } },
+        { session }
+      );
+      if (!credited) {
+        throw new Error("Wallet not found");
+      }
+    }
+
+    return insertLegs(transaction, debitAccount, creditAccount, session);
+  },
+
+  /**
+   * Move a transaction from one of `from` to `to` and run `post` in the same
+   * MongoDB transaction, so postings happen exactly once per transition.
+   * Returns false if the transaction had already left the `from` statuses.
+   */
+  async transition(
+    transaction: ITransaction,
+    from: TransactionStatus[],
+    to: TransactionStatus,
+    post?: (settled: ITransaction, session: ClientSession) => Promise<unknown>,
+    update: Record<string, unknown> = {}
+  ): Promise<boolean> {
+    return mongoose.connection.transaction(async (session) => {
+      const settled = await Transaction.findOneAndUpdate(
+        { _id: transaction._id, status: { $in: from } },
+        { ...update, status: to },
+        { new: true, session }
+      );
+      if (!settled) {
+        return false;
+      }
+
+      if (post) {
+        await post(settled, session);
+      }
+      return true;
+    });
+  },
+
+  /**
+   * Credit a wallet with money received through Paystack, or through the
+   * sandbox provider for sandbox deposits
+   */
+  async recordDeposit(
+    transaction: ITransaction,
+    walletNumber: string,
+    session?: ClientSession
+  ) {
+    return this.post(
+      transaction,
+      sandboxService.isSandbox(transaction.userId)
+        ? SYSTEM_ACCOUNTS.sandbox
+        : SYSTEM_ACCOUNTS.paystack,
+      walletNumber,
+      session
+    );
+  },
+
+  /**
+   * Book money a wallet held before it had ledger entries, as paid in through
+   * Paystack when the opening transaction was created. The wallet's balance
+   * already includes it, so only the ledger legs are written.
+   */
+  async recordOpeningBalance(
+    transaction: ITransaction,
+    walletNumber: string,
+    session?: ClientSession
+  ) {
+    if (!transaction.amount || transaction.amount <= 0) {
+      throw new Error("Ledger amount must be a positive number");
+    }
+
+    return insertLegs(
+      transaction,
+      SYSTEM_ACCOUNTS.paystack,
+      walletNumber,
+      session,
+      transaction.createdAt
+    );
+  },
+
+  /**
+   * Move money between two customer wallets
+   */
+  async recordTransfer(
+    transaction: ITransaction,
+    senderWalletNumber: string,
+    recipientWalletNumber: string,
+    session?: ClientSession
+  ) {
+    return this.post(
+      transaction,
+      senderWalletNumber,
+      recipientWalletNumber,
+      session
+    );
+  },
+
+  /**
+   * Balance of an account computed from its ledger entries (credits - debits).
+   * System accounts hold every currency, so pass one to get a single balance.
+   */
+  async getAccountBalance(
+    account: string,
+    currency?: Currency,
+    session?: ClientSession
+  ): Promise<number> {
+    const totals = await LedgerEntry.aggregate<{
+      _id: string;
+      total: number;
+    }>([
+      { $match: currency ? { account, currency } : { account } },
+      { $group: { _id: "$direction", total: { $sum: "$amount" } } },
+    ]).session(session ?? null);
+
+    const credits = totals.find((t) => t._id === "credit")?.total || 0;
+    const debits = totals.find((t) => t._id === "debit")?.total || 0;
+    return credits - debits;
+  },
+
+  /**
+   * Compare a wallet's stored balance with the balance derived from the ledger
+   */
+  async checkWalletBalance(wallet: IWallet) {
+    const ledgerBalance = await this.getAccountBalance(
+      wallet.walletNumber,
+      wallet.currency
+    );
+    return {
+      balance: wallet.balance,
+      ledgerBalance,
+      consistent: wallet.balance === ledgerBalance,
+    };
+  },
+
+  async getEntries(account: string, limit = 50) {
+    return LedgerEntry.find({ account }).sort({ createdAt: -1 }).limit(limit);
+  },
+};
+
+export default ledgerService;
@@ -0,0 +1,378 @@
+import mongoose from "mongoose";
+import { SUPPORTED_CURRENCIES } from "../config/currencies";
+import { LedgerEntry } from "../models/LedgerEntry";
+import {
+  ICurrencySummary,
+  IDiscrepancy,
+  ReconciliationReport,
+} from "../models/ReconciliationReport";
+import { Transaction } from "../models/Transaction";
+import { Wallet } from "../models/Wallet";
+import ledgerService, { SYSTEM_ACCOUNTS } from "./ledger.service";
+import sandboxService from "./sandbox.service";
+import {
+  paystackSettlementSource,
+  SettlementSource,
+} from "./settlementSource.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type NewDiscrepancy = Omit<IDiscrepancy, "_id" | "resolved">;
+
+const discrepancyKey = (discrepancy: {
+  type: string;
+  reference?: string;
+  currency?: string;
+}) =>
+  `${discrepancy.type}:${discrepancy.reference || ""}:${
+    discrepancy.currency || ""
+  }`;
+
+type Summaries = Map<string, ICurrencySummary>;
+
+const summaryFor = (summaries: Summaries, currency: string) => {
+  let summary = summaries.get(currency);
+  if (!summary) {
+    summary = {
+      currency,
+      depositCount: 0,
+      depositTotal: 0,
+      paystackCount: 0,
+      paystackTotal: 0,
+      walletBalanceTotal: 0,
+      expectedWalletTotal: 0,
+    };
+    summaries.set(currency, summary);
+  }
+  return summary;
+};
+
+/**
+ * Daily check that our books match Paystack. Successful deposits paid on a
+ * day are compared reference by reference with the payments Paystack reports
+ * for that day, and the sum of all wallet balances is compared with the net
+ * money the ledger says came in (deposits less refunds, held disputes and
+ * withdrawals, adjusted for conversions). Discrepancies are stored on the
+ * report until an admin marks them resolved.
+ */
+const ledgerReconciliationService = {
+  /**
+   * Provider view of a day's payments. Replace it to reconcile against a
+   * settlement file or a fake.
+   */
+  settlementSource: paystackSettlementSource as SettlementSource,
+
+  /**
+   * Validate a YYYY-MM-DD date and return the UTC day it covers
+   */
+  parseDate(date: string) {
+    const from = new Date(`${date}T00:00:00.000Z`);
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+      isNaN(from.getTime()) ||
+      from.toISOString().slice(0, 10) !== date
+    ) {
+      throw new Error("Date must be in YYYY-MM-DD format");
+    }
+
+    if (from.getTime() > Date.now()) {
+      throw new Error("Date cannot be in the future");
+    }
+
+    return { from, to: new Date(from.getTime() + DAY_MS) };
+  },
+
+  /**
+   * The UTC day before `now`, as YYYY-MM-DD
+   */
+  previousDate(now = new Date()) {
+    return new Date(now.getTime() - DAY_MS).toISOString().slice(0, 10);
+  },
+
+  async get(date: string) {
+    this.parseDate(date);
+    return ReconciliationReport.findOne({ date });
+  },
+
+  /**
+   * Return the stored report for `date`, generating it on first request
+   */
+  async getOrGenerate(date: string) {
+    return (await this.get(date)) || this.generate(date);
+  },
+
+  /**
+   * Build (or rebuild) the report for `date`. Discrepancies that were
+   * already resolved on an earlier run stay resolved.
+   */
+  async generate(date: string) {
+    const { from, to } = this.parseDate(date);
+    const summaries: Summaries = new Map();
+
+    const discrepancies = [
+      ...(await this.compareDeposits(from, to, summaries)),
+      ...(await this.checkBalances(summaries)),
+    ];
+
+    const previous = await ReconciliationReport.findOne({ date });
+    const resolved = new Map(
+      (previous?.discrepancies || [])
+        .filter((discrepancy) => discrepancy.resolved)
+        .map((discrepancy) => [discrepancyKey(discrepancy), discrepancy])
+    );
+
+    const merged = discrepancies.map((discrepancy) => {
+      const earlier = resolved.get(discrepancyKey(discrepancy));
+      return earlier
+        ? {
+            ...discrepancy,
+            resolved: true,
+            resolvedAt: earlier.resolvedAt,
+            resolvedBy: earlier.resolvedBy,
+            resolutionNote: earlier.resolutionNote,
+          }
+        : { ...discrepancy, resolved: false };
+    });
+
+    const report = await ReconciliationReport.findOneAndUpdate(
+      { date },
+      {
+        date,
+        source: this.settlementSource.name,
+        status: merged.length ? "discrepancies" : "balanced",
+        currencies: [...summaries.values()],
+        discrepancies: merged,
+        generatedAt: new Date(),
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    if (merged.some((discrepancy) => !discrepancy.resolved)) {
+      console.warn(
+        `Reconciliation for ${date} found ${
+          merged.filter((discrepancy) => !discrepancy.resolved).length
+        } open discrepancy(ies)`
+      );
+    }
+    return report;
+  },
+
+  /**
+   * Compare the day's successful deposits with the provider's payments
+   */
+  async compareDeposits(
+    from: Date,
+    to: Date,
+    summaries: Summaries
+  ): Promise<NewDiscrepancy[]> {
+    const discrepancies: NewDiscrepancy[] = [];
+
+    const deposits = await Transaction.find({
+      type: "deposit",
+      status: "success",
+      paidAt: { $gte: from, $lt: to },
+      ...sandboxService.liveOnly(),
+    });
+    const payments = await this.settlementSource.listSuccessfulPayments(
+      from,
+      to
+    );
+
+    for (const deposit of deposits) {
+      const summary = summaryFor(summaries, deposit.currency);
+      summary.depositCount += 1;
+      summary.depositTotal += deposit.amount;
+    }
+
+    const depositsByReference = new Map(
+      deposits.map((deposit) => [deposit.reference, deposit])
+    );
+    const seenPayments = new Set<string>();
+
+    for (const payment of payments) {
+      const summary = summaryFor(summaries, payment.currency);
+      summary.paystackCount += 1;
+      summary.paystackTotal += payment.amount;
+
+      if (seenPayments.has(payment.reference)) {
+        discrepancies.push({
+          type: "duplicate",
+          reference: payment.reference,
+          currency: payment.currency,
+          expected: payment.amount,
+          detail: "Paystack reported this reference more than once",
+        });
+        continue;
+      }
+      seenPayments.add(payment.reference);
+
+      // A deposit paid near midnight may be dated the other day here
+      const deposit =
+        depositsByReference.get(payment.reference) ||
+        (await Transaction.findOne({ reference: payment.reference }));
+
+      if (!deposit || deposit.status !== "success") {
+        discrepancies.push({
+          type: "missing_in_ledger",
+          reference: payment.reference,
+          currency: payment.currency,
+          expected: payment.amount,
+          detail: deposit
+            ? `Paid on Paystack but the deposit is ${deposit.status} here`
+            : "Paid on Paystack but no deposit exists here",
+        });
+        continue;
+      }
+
+      if (
+        deposit.amount !== payment.amount ||
+        deposit.currency !== payment.currency
+      ) {
+        discrepancies.push({
+          type: "amount_mismatch",
+          reference: payment.reference,
+          currency: payment.currency,
+          expected: payment.amount,
+          actual: deposit.amount,
+          detail: `Paystack settled ${payment.amount} ${payment.currency}, the deposit is ${deposit.amount} ${deposit.currency}`,
+        });
+      }
+    }
+
+    for (const deposit of deposits) {
+      if (!seenPayments.has(deposit.reference)) {
+        discrepancies.push({
+          type: "missing_at_paystack",
+          reference: deposit.reference,
+          currency: deposit.currency,
+          actual: deposit.amount,
+          detail: "Credited here but not reported as paid by Paystack",
+        });
+      }
+    }
+
+    // A deposit must credit exactly one wallet once
+    const credits = await LedgerEntry.aggregate<{
+      _id: string;
+      count: number;
+      total: number;
+      currency: string;
+    }>([
+      {
+        $match: {
+          reference: { $in: deposits.map((deposit) => deposit.reference) },
+          direction: "credit",
+          account: { $nin: Object.values(SYSTEM_ACCOUNTS) },
+        },
+      },
+      {
+        $group: {
+          _id: "$reference",
+          count: { $sum: 1 },
+          total: { $sum: "$amount" },
+          currency: { $first: "$currency" },
+        },
+      },
+      { $match: { count: { $gt: 1 } } },
+    ]);
+
+    for (const credit of credits) {
+      discrepancies.push({
+        type: "duplicate",
+        reference: credit._id,
+        currency: credit.currency,
+        expected: depositsByReference.get(credit._id)?.amount,
+        actual: credit.total,
+        detail: `Deposit credited to wallets ${credit.count} times`,
+      });
+    }
+
+    return discrepancies;
+  },
+
+  /**
+   * Check, per currency, that all wallet balances add up to the money the
+   * ledger's system accounts say is owed to customers
+   */
+  async checkBalances(summaries: Summaries): Promise<NewDiscrepancy[]> {
+    const discrepancies: NewDiscrepancy[] = [];
+
+    // Sandbox wallets and the sandbox account balance each other out and
+    // have nothing to do with money held for customers
+    const walletTotals = await Wallet.aggregate<{ _id: string; total: number }>(
+      [
+        { $match: sandboxService.liveOnly() },
+        { $group: { _id: "$currency", total: { $sum: "$balance" } } },
+      ]
+    );
+    const liveAccounts = Object.values(SYSTEM_ACCOUNTS).filter(
+      (account) => account !== SYSTEM_ACCOUNTS.sandbox
+    );
+
+    for (const currency of SUPPORTED_CURRENCIES) {
+      const walletTotal =
+        walletTotals.find((total) => total._id === currency)?.total || 0;
+
+      // Every wallet movement has a system account on the other side unless
+      // it is a wallet-to-wallet transfer, so the system accounts' combined
+      // position is exactly what the wallets should hold
+      let expected = 0;
+      for (const account of liveAccounts) {
+        expected -= await ledgerService.getAccountBalance(account, currency);
+      }
+
+      // Currencies nobody uses are left out of the report
+      if (walletTotal === 0 && expected === 0 && !summaries.has(currency)) {
+        continue;
+      }
+
+      const summary = summaryFor(summaries, currency);
+      summary.walletBalanceTotal = walletTotal;
+      summary.expectedWalletTotal = expected;
+
+      if (walletTotal !== expected) {
+        discrepancies.push({
+          type: "balance_mismatch",
+          currency,
+          expected,
+          actual: walletTotal,
+          detail: `Wallet balances add up to ${walletTotal} but the ledger's net deposits less withdrawals is ${expected}`,
+        });
+      }
+    }
+
+    return discrepancies;
+  },
+
+  /**
+   * Mark a discrepancy as followed up
+   */
+  async resolve(
+    date: string,
+    discrepancyId: string,
+    adminId: string,
+    note?: string
+  ) {
+    const report = await this.get(date);
+    const discrepancy =
+      report && mongoose.isValidObjectId(discrepancyId)
+        ? report.discrepancies.id(discrepancyId)
+        : null;
+
+    if (!report || !discrepancy) {
+      throw new Error("Discrepancy not found");
+    }
+
+    if (discrepancy.resolved) {
+      throw new Error("Discrepancy is already resolved");
+    }
+
+    discrepancy.resolved = true;
+    discrepancy.resolvedAt = new Date();
+    discrepancy.resolvedBy = adminId;
+    discrepancy.resolutionNote = note;
+    return report.save();
+  },
+};
+
+export default ledgerReconciliationService;
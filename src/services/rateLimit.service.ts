@@ -0,0 +1,113 @@
+import config from "../config";
+import {
+  createMemoryRateLimitStore,
+  mongoRateLimitStore,
+  RateLimitStore,
+} from "./rateLimitStore.service";
+
+/**
+ * A number of requests a caller may make per window
+ */
+export interface RateLimitBudget {
+  name: string; // Counter namespace, e.g. "permission:transfer"
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  budget: RateLimitBudget;
+  remaining: number;
+  resetAt: Date;
+  limited: boolean;
+}
+
+/**
+ * Fixed-window rate limiting. A request is counted against every budget
+ * that applies to it: the budget of the permission it needs (shared by all
+ * routes with that permission, or a default budget when it needs none) and,
+ * when one is configured, the budget of the route itself. Separately, every
+ * request is counted against its client IP's budget before it is
+ * authenticated, so requests with bad credentials are limited too.
+ */
+const rateLimitService = {
+  store: (config.rateLimit.store === "mongo"
+    ? mongoRateLimitStore
+    : createMemoryRateLimitStore()) as RateLimitStore,
+
+  /**
+   * Budgets for a route such as "POST /wallet/transfer". Budgets set to 0
+   * are left out.
+   */
+  budgetsFor(route: string, permission?: string): RateLimitBudget[] {
+    const { windowSeconds, defaultLimit, permissions, routes } =
+      config.rateLimit;
+
+    const budgets: RateLimitBudget[] = [
+      permission
+        ? {
+            name: `permission:${permission}`,
+            limit: permissions[permission] ?? defaultLimit,
+            windowSeconds,
+          }
+        : { name: "default", limit: defaultLimit, windowSeconds },
+    ];
+    if (routes[route] !== undefined) {
+      budgets.push({
+        name: `route:${route}`,
+        limit: routes[route],
+        windowSeconds,
+      });
+    }
+
+    return budgets.filter((budget) => budget.limit > 0);
+  },
+
+  /**
+   * Budget every request from a client IP counts against, whatever the
+   * route and however it authenticates. Left out when set to 0.
+   */
+  ipBudgets(): RateLimitBudget[] {
+    const { windowSeconds, ipLimit } = config.rateLimit;
+    return ipLimit > 0 ? [{ name: "ip", limit: ipLimit, windowSeconds }] : [];
+  },
+
+  /**
+   * Count a request by `caller` against each budget. Returns the budget the
+   * caller is closest to exhausting (or has exhausted), or undefined when no
+   * budget applies.
+   */
+  async consume(
+    caller: string,
+    budgets: RateLimitBudget[],
+    now = new Date()
+  ): Promise<RateLimitResult | undefined> {
+    let tightest: RateLimitResult | undefined;
+
+    for (const budget of budgets) {
+      const { count, resetAt } = await this.store.increment(
+        `${budget.name}:${caller}`,
+        budget.windowSeconds * 1000,
+        now
+      );
+      const result = {
+        budget,
+        remaining: Math.max(0, budget.limit - count),
+        resetAt,
+        limited: count > budget.limit,
+      };
+
+      if (
+        !tightest ||
+        (result.limited && !tightest.limited) ||
+        (result.limited === tightest.limited &&
+          result.remaining < tightest.remaining)
+      ) {
+        tightest = result;
+      }
+    }
+
+    return tightest;
+  },
+};
+
+export default rateLimitService;
@@ -0,0 +1,80 @@
+import { RateLimitCounter } from "../models/RateLimitCounter";
+
+/**
+ * Requests counted in the current window of a budget
+ */
+export interface WindowCount {
+  count: number; // Including the request being counted
+  resetAt: Date; // When the window ends and the count starts again
+}
+
+/**
+ * Where the rate limiter keeps its counters. Counters use fixed windows of
+ * `windowMs`, aligned to the epoch so every instance agrees on them.
+ */
+export interface RateLimitStore {
+  name: string;
+  /**
+   * Count one request against `key` and return the window's total
+   */
+  increment(key: string, windowMs: number, now: Date): Promise<WindowCount>;
+}
+
+const windowStartOf = (windowMs: number, now: Date) =>
+  Math.floor(now.getTime() / windowMs) * windowMs;
+
+// Expired counters are swept once the map holds this many
+const MEMORY_SWEEP_SIZE = 10000;
+
+/**
+ * Counters in this process's memory. Fast, but each app instance counts on
+ * its own, so with N instances a caller gets up to N times the budget.
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const counters = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    name: "memory",
+
+    async increment(key: string, windowMs: number, now: Date) {
+      const resetAt = windowStartOf(windowMs, now) + windowMs;
+
+      if (counters.size >= MEMORY_SWEEP_SIZE) {
+        for (const [counterKey, counter] of counters) {
+          if (counter.resetAt <= now.getTime()) {
+            counters.delete(counterKey);
+          }
+        }
+      }
+
+      const counter = counters.get(key);
+      if (counter && counter.resetAt === resetAt) {
+        counter.count += 1;
+        return { count: counter.count, resetAt: new Date(resetAt) };
+      }
+
+      counters.set(key, { count: 1, resetAt });
+      return { count: 1, resetAt: new Date(resetAt) };
+    },
+  };
+};
+
+/**
+ * Counters in MongoDB, shared by every app instance. Each request is one
+ * upsert; finished windows are removed by a TTL index.
+ */
+export const mongoRateLimitStore: RateLimitStore = {
+  name: "mongo",
+
+  async increment(key: string, windowMs: number, now: Date) {
+    const windowStart = windowStartOf(windowMs, now);
+    const resetAt = new Date(windowStart + windowMs);
+
+    const counter = await RateLimitCounter.findOneAndUpdate(
+      { key, windowStart: new Date(windowStart) },
+      { $inc: { count: 1 }, $setOnInsert: { expiresAt: resetAt } },
+      { upsert: true, new: true }
+    );
+    return { count: counter.count, resetAt };
+  },
+};
@@ -0,0 +1,50 @@
+import { KeyMode } from "../models/Key";
+
+const SANDBOX_PREFIX = "test_";
+
+/**
+ * Test-mode API keys act for a sandbox owner, `test_<userId>`, instead of the
+ * user. Wallets, transactions, idempotency records and the rest of the data
+ * keyed by owner are therefore kept apart from live data without any query
+ * knowing about test mode. Only code that crosses owners (wallet number
+ * lookups, provider calls, reconciliation) has to check.
+ */
+const sandboxService = {
+  /**
+   * The owner ID a key in `mode` acts as
+   */
+  ownerId(userId: string, mode: KeyMode = "live") {
+    return mode === "test" ? `${SANDBOX_PREFIX}${userId}` : userId;
+  },
+
+  isSandbox(ownerId?: string | null) {
+    return !!ownerId && ownerId.startsWith(SANDBOX_PREFIX);
+  },
+
+  /**
+   * The real user behind an owner ID, live or sandbox
+   */
+  userIdOf(ownerId: string) {
+    return this.isSandbox(ownerId)
+      ? ownerId.slice(SANDBOX_PREFIX.length)
+      : ownerId;
+  },
+
+  /**
+   * Whether money may move between two owners: live to live or sandbox to
+   * sandbox, never across
+   */
+  sameMode(ownerId: string, otherOwnerId: string) {
+    return this.isSandbox(ownerId) === this.isSandbox(otherOwnerId);
+  },
+
+  /**
+   * Query filter excluding sandbox records, for jobs that compare the ledger
+   * with Paystack
+   */
+  liveOnly(field = "userId") {
+    return { [field]: { $not: new RegExp(`^${SANDBOX_PREFIX}`) } };
+  },
+};
+
+export default sandboxService;
@@ -0,0 +1,115 @@
+import config from "../config";
+import { ITransaction, Transaction } from "../models/Transaction";
+import depositSettlementService from "./depositSettlement.service";
+import sandboxService from "./sandbox.service";
+
+export const SIMULATED_OUTCOMES = ["success", "failed"] as const;
+
+export type SimulatedOutcome = (typeof SIMULATED_OUTCOMES)[number];
+
+/**
+ * Stand-in for Paystack behind deposits made with test-mode keys. Nothing
+ * leaves the server: the checkout URL points back at this API, and the
+ * deposit's amount decides how the checkout ends.
+ *
+ * Magic amounts, by the last two digits of the amount in minor units:
+ * - 01: the payment is declined and the deposit fails
+ * - 02: the checkout is left open and the deposit stays pending
+ * - anything else: the payment succeeds
+ */
+const sandboxProviderService = {
+  /**
+   * Same shape as paystackService.initializeTransaction
+   */
+  async initializeTransaction(reference: string) {
+    return {
+      reference,
+      authorization_url: `${config.appBaseUrl}/sandbox/checkout/${reference}`,
+      access_code: reference,
+    };
+  },
+
+  outcomeFor(amount: number): SimulatedOutcome | "pending" {
+    switch (amount % 100) {
+      case 1:
+        return "failed";
+      case 2:
+        return "pending";
+      default:
+        return "success";
+    }
+  },
+
+  /**
+   * Complete the sandbox checkout for a deposit as its amount dictates.
+   * Visiting it again is harmless: settlement only applies once.
+   */
+  async checkout(reference: string) {
+    const deposit = await Transaction.findOne({ reference, type: "deposit" });
+    if (!deposit || !sandboxService.isSandbox(deposit.userId)) {
+      throw new Error("Sandbox deposit not found");
+    }
+
+    const outcome = this.outcomeFor(deposit.amount);
+    if (outcome !== "pending") {
+      await this.settle(deposit, outcome);
+    }
+    return (await Transaction.findById(deposit._id)) ?? deposit;
+  },
+
+  /**
+   * Force the outcome of one of the sandbox owner's deposits, whatever its
+   * amount. A deposit that already succeeded cannot be failed.
+   */
+  async simulate(ownerId: string, reference: string, outcome: unknown) {
+    if (
+      typeof outcome !== "string" ||
+      !SIMULATED_OUTCOMES.includes(outcome as SimulatedOutcome)
+    ) {
+      throw new Error(
+        `Outcome must be one of: ${SIMULATED_OUTCOMES.join(", ")}`
+      );
+    }
+
+    const deposit = sandboxService.isSandbox(ownerId)
+      ? await Transaction.findOne({
+          reference,
+          type: "deposit",
+          userId: ownerId,
+        })
+      : null;
+    if (!deposit) {
+      throw new Error("Sandbox deposit not found");
+    }
+
+    if (deposit.status === "success" && outcome === "failed") {
+      throw new Error("Deposit has already succeeded");
+    }
+
+    await this.settle(deposit, outcome as SimulatedOutcome);
+    return (await Transaction.findById(deposit._id)) ?? deposit;
+  },
+
+  /**
+   * Settle through the same service as real Paystack payments, so sandbox
+   * deposits go through the same transitions, ledger postings and events
+   */
+  async settle(deposit: ITransaction, outcome: SimulatedOutcome) {
+    if (outcome === "failed") {
+      return depositSettlementService.fail(deposit.reference);
+    }
+
+    return depositSettlementService.credit({
+      id: 0,
+      reference: deposit.reference,
+      amount: deposit.amount,
+      currency: deposit.currency,
+      status: "success",
+      paid_at: new Date().toISOString(),
+      channel: "sandbox",
+      gateway_response: "Approved",
+    });
+  },
+};
+
+export default sandboxProviderService;
@@ -0,0 +1,462 @@
+import mongoose from "mongoose";
+import config from "../config";
+import { Currency, DEFAULT_CURRENCY } from "../config/currencies";
+import {
+  IScheduledTransfer,
+  ScheduledTransfer,
+  ScheduleFrequency,
+} from "../models/ScheduledTransfer";
+import { Key } from "../models/Key";
+import { Wallet } from "../models/Wallet";
+import keyService, { KeyPayment } from "./key.service";
+import sandboxService from "./sandbox.service";
+import transferService from "./transfer.service";
+
+const FREQUENCIES: ScheduleFrequency[] = ["once", "daily", "weekly", "monthly"];
+
+// How long a scheduler run may hold a schedule before another run can take it
+const LOCK_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ScheduleInput {
+  recipientWalletNumber?: string;
+  amount?: number;
+  currency?: Currency;
+  frequency?: ScheduleFrequency;
+  startAt?: Date;
+  endAt?: Date;
+  maxOccurrences?: number;
+  note?: string;
+  apiKeyId?: string;
+}
+
+type ScheduleUpdate = Pick<
+  ScheduleInput,
+  "amount" | "endAt" | "maxOccurrences" | "note"
+>;
+
+/**
+ * Per-payment limits of the key a schedule is made with are checked up front;
+ * daily and monthly caps are enforced on each run.
+ */
+const checkKeyLimits = async (
+  apiKeyId: string | undefined,
+  payment: KeyPayment
+) => {
+  const key = apiKeyId ? await Key.findById(apiKeyId) : null;
+  if (key) {
+    keyService.checkLimits(key, payment);
+  }
+};
+
+/**
+ * Why the key a schedule was made with can no longer pay for it, if it cannot:
+ * a revoked, expired or rotated-out key, or one without `transfer` permission.
+ */
+const keyProblem = async (
+  apiKeyId: string | undefined
+): Promise<string | undefined> => {
+  if (!apiKeyId) {
+    return undefined;
+  }
+
+  const key = await Key.findById(apiKeyId);
+  if (!key) {
+    return "The API key this schedule was created with no longer exists";
+  }
+  const status = keyService.status(key);
+  if (status !== "active") {
+    return `The API key this schedule was created with is ${status}`;
+  }
+  if (!key.permissions.includes("transfer")) {
+    return "The API key this schedule was created with no longer has transfer permission";
+  }
+  return undefined;
+};
+
+/**
+ * Same day of the month `months` later, clamped to the month's last day
+ * (a schedule starting on 31 January runs on 28/29 February).
+ */
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  const day = date.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+};
+
+/**
+ * Due time of occurrence `n`. Occurrences are counted from the start date so
+ * late runs and month-end clamping never make the schedule drift.
+ */
+const occurrenceAt = (
+  startAt: Date,
+  frequency: ScheduleFrequency,
+  n: number
+): Date => {
+  switch (frequency) {
+    case "daily":
+      return new Date(startAt.getTime() + n * DAY_MS);
+    case "weekly":
+      return new Date(startAt.getTime() + n * 7 * DAY_MS);
+    case "monthly":
+      return addMonths(startAt, n);
+    default:
+      return startAt;
+  }
+};
+
+const validateAmount = (amount: unknown) => {
+  if (
+    !amount ||
+    typeof amount !== "number" ||
+    amount <= 0 ||
+    !Number.isInteger(amount)
+  ) {
+    throw new Error("Amount must be a positive number (in kobo)");
+  }
+};
+
+const validateEndConditions = (
+  startAt: Date,
+  endAt?: Date,
+  maxOccurrences?: number
+) => {
+  if (endAt && (isNaN(endAt.getTime()) || endAt <= startAt)) {
+    throw new Error("End date must be after the start date");
+  }
+
+  if (
+    maxOccurrences !== undefined &&
+    (!Number.isInteger(maxOccurrences) || maxOccurrences < 1)
+  ) {
+    throw new Error("Max occurrences must be a positive whole number");
+  }
+};
+
+const scheduledTransferService = {
+  /**
+   * Schedule a one-off or recurring transfer from the user's wallet. The
+   * recipient is checked now so obvious mistakes fail at creation time.
+   */
+  async create(userId: string, input: ScheduleInput) {
+    validateAmount(input.amount);
+
+    const frequency = input.frequency;
+    if (!frequency || !FREQUENCIES.includes(frequency)) {
+      throw new Error(
+        "Frequency must be one of once, daily, weekly or monthly"
+      );
+    }
+
+    const startAt = input.startAt;
+    if (!startAt || isNaN(startAt.getTime()) || startAt <= new Date()) {
+      throw new Error("Start date must be in the future");
+    }
+
+    validateEndConditions(startAt, input.endAt, input.maxOccurrences);
+
+    const currency = input.currency || DEFAULT_CURRENCY;
+
+    const recipientWallet = await Wallet.findOne({
+      walletNumber: input.recipientWalletNumber,
+    });
+    if (
+      !input.recipientWalletNumber ||
+      !recipientWallet ||
+      !sandboxService.sameMode(recipientWallet.userId, userId)
+    ) {
+      throw new Error("Recipient wallet not found");
+    }
+
+    if (recipientWallet.userId === userId) {
+      throw new Error("You cannot transfer to yourself");
+    }
+
+    if (recipientWallet.currency !== currency) {
+      throw new Error(
+        "Cross-currency transfers are not supported; convert the funds first"
+      );
+    }
+
+    await checkKeyLimits(input.apiKeyId, {
+      amount: input.amount!,
+      currency,
+      recipientWalletNumber: recipientWallet.walletNumber,
+    });
+
+    return ScheduledTransfer.create({
+      userId,
+      recipientWalletNumber: recipientWallet.walletNumber,
+      amount: input.amount,
+      currency,
+      frequency,
+      startAt,
+      endAt: input.endAt,
+      maxOccurrences: input.maxOccurrences,
+      nextOccurrenceAt: startAt,
+      nextRunAt: startAt,
+      note: input.note,
+      apiKeyId: input.apiKeyId,
+    });
+  },
+
+  async list(userId: string) {
+    return ScheduledTransfer.find({ userId }).sort({ createdAt: -1 });
+  },
+
+  async get(userId: string, id: string) {
+    const schedule = mongoose.isValidObjectId(id)
+      ? await ScheduledTransfer.findOne({ _id: id, userId })
+      : null;
+
+    if (!schedule) {
+      throw new Error("Scheduled transfer not found");
+    }
+    return schedule;
+  },
+
+  /**
+   * Change the amount, end conditions or note of a schedule that is still
+   * running. Changes apply from the next occurrence.
+   */
+  async update(userId: string, id: string, changes: ScheduleUpdate) {
+    const schedule = await this.get(userId, id);
+    this.assertChangeable(schedule);
+
+    if (changes.amount !== undefined) {
+      validateAmount(changes.amount);
+      await checkKeyLimits(schedule.apiKeyId, {
+        amount: changes.amount,
+        currency: schedule.currency,
+        recipientWalletNumber: schedule.recipientWalletNumber,
+      });
+      schedule.amount = changes.amount;
+    }
+
+    validateEndConditions(
+      schedule.startAt,
+      changes.endAt,
+      changes.maxOccurrences
+    );
+    if (changes.endAt !== undefined) {
+      schedule.endAt = changes.endAt;
+    }
+    if (changes.maxOccurrences !== undefined) {
+      schedule.maxOccurrences = changes.maxOccurrences;
+    }
+    if (changes.note !== undefined) {
+      schedule.note = changes.note;
+    }
+
+    // Tightened end conditions may already have been met
+    if (this.isFinished(schedule)) {
+      schedule.status = "completed";
+    }
+    return schedule.save();
+  },
+
+  async pause(userId: string, id: string) {
+    const schedule = await this.get(userId, id);
+    if (schedule.status !== "active") {
+      throw new Error("Only active schedules can be paused");
+    }
+
+    schedule.status = "paused";
+    return schedule.save();
+  },
+
+  /**
+   * Resume a paused schedule. Recurring occurrences that fell due while it
+   * was paused are skipped rather than paid late; an overdue one-off transfer
+   * runs straight away.
+   */
+  async resume(userId: string, id: string) {
+    const schedule = await this.get(userId, id);
+    if (schedule.status !== "paused") {
+      throw new Error("Only paused schedules can be resumed");
+    }
+
+    const problem = await keyProblem(schedule.apiKeyId);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const now = new Date();
+    schedule.status = "active";
+    schedule.attempts = 0;
+    while (schedule.frequency !== "once" && schedule.nextOccurrenceAt < now) {
+      schedule.occurrence += 1;
+      schedule.nextOccurrenceAt = occurrenceAt(
+        schedule.startAt,
+        schedule.frequency,
+        schedule.occurrence
+      );
+    }
+    schedule.nextRunAt =
+      schedule.nextOccurrenceAt < now ? now : schedule.nextOccurrenceAt;
+
+    if (this.isFinished(schedule)) {
+      schedule.status = "completed";
+    }
+    return schedule.save();
+  },
+
+  async cancel(userId: string, id: string) {
+    const schedule = await this.get(userId, id);
+    this.assertChangeable(schedule);
+
+    schedule.status = "cancelled";
+    return schedule.save();
+  },
+
+  assertChangeable(schedule: IScheduledTransfer) {
+    if (schedule.status !== "active" && schedule.status !== "paused") {
+      throw new Error("Only active or paused schedules can be changed");
+    }
+  },
+
+  /**
+   * Whether the schedule has no occurrence left at `occurrence`
+   */
+  isFinished(schedule: IScheduledTransfer) {
+    if (schedule.frequency === "once") {
+      return schedule.occurrence >= 1;
+    }
+    if (
+      schedule.maxOccurrences &&
+      schedule.occurrence >= schedule.maxOccurrences
+    ) {
+      return true;
+    }
+    return !!schedule.endAt && schedule.nextOccurrenceAt > schedule.endAt;
+  },
+
+  /**
+   * Execute every schedule that is due. Each schedule is claimed with a
+   * short lock first, so overlapping runs (or several app instances) never
+   * execute the same schedule at the same time.
+   */
+  async runDue(now = new Date()) {
+    let executed = 0;
+
+    for (;;) {
+      const schedule = await ScheduledTransfer.findOneAndUpdate(
+        {
+          status: "active",
+          nextRunAt: { $lte: now },
+          $or: [
+            { lockedUntil: { $exists: false } },
+            { lockedUntil: null },
+            { lockedUntil: { $lte: now } },
+          ],
+        },
+        { lockedUntil: new Date(Date.now() + LOCK_MS) },
+        { new: true, sort: { nextRunAt: 1 } }
+      );
+
+      if (!schedule) {
+        return executed;
+      }
+
+      await this.execute(schedule);
+      executed += 1;
+    }
+  },
+
+  /**
+   * Run the current occurrence through the normal transfer logic. The
+   * transaction reference is derived from the schedule and occurrence, so an
+   * occurrence that already went through cannot be paid a second time. A
+   * schedule whose API key can no longer pay is paused instead of run.
+   */
+  async execute(schedule: IScheduledTransfer) {
+    const now = new Date();
+    const reference = `SCH_${schedule.id}_${schedule.occurrence}`.toUpperCase();
+
+    schedule.lastRunAt = now;
+    schedule.lockedUntil = undefined;
+
+    const problem = await keyProblem(schedule.apiKeyId);
+    if (problem) {
+      schedule.status = "paused";
+      schedule.lastError = problem;
+      return schedule.save();
+    }
+
+    let succeeded: boolean;
+    try {
+      await transferService.transfer(
+        schedule.userId,
+        schedule.recipientWalletNumber,
+        schedule.amount,
+        schedule.currency,
+        {
+          reference,
+          scheduledTransferId: schedule.id,
+          apiKeyId: schedule.apiKeyId,
+        }
+      );
+      succeeded = true;
+    } catch (error: any) {
+      // An earlier run paid this occurrence but stopped before saving it
+      succeeded = error.code === 11000;
+      if (!succeeded) {
+        schedule.lastError =
+          error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    if (succeeded) {
+      schedule.successCount += 1;
+      schedule.lastReference = reference;
+      schedule.lastError = undefined;
+      this.advance(schedule);
+      return schedule.save();
+    }
+
+    schedule.failureCount += 1;
+    schedule.attempts += 1;
+
+    if (schedule.attempts <= config.scheduler.maxRetries) {
+      schedule.nextRunAt = new Date(
+        now.getTime() + config.scheduler.retryDelayMinutes * 60 * 1000
+      );
+      return schedule.save();
+    }
+
+    // Out of retries: give up on this occurrence
+    this.advance(schedule);
+    if (schedule.frequency === "once") {
+      schedule.status = "failed";
+    }
+    return schedule.save();
+  },
+
+  /**
+   * Move a schedule on to its next occurrence, completing it when an end
+   * condition is reached
+   */
+  advance(schedule: IScheduledTransfer) {
+    schedule.occurrence += 1;
+    schedule.attempts = 0;
+    schedule.nextOccurrenceAt = occurrenceAt(
+      schedule.startAt,
+      schedule.frequency,
+      schedule.occurrence
+    );
+    schedule.nextRunAt = schedule.nextOccurrenceAt;
+
+    if (this.isFinished(schedule)) {
+      schedule.status = "completed";
+    }
+  },
+};
+
+export default scheduledTransferService;
@@ -0,0 +1,67 @@
+import paystackService from "./wallet.service";
+
+/**
+ * A successful payment as the payment provider reports it
+ */
+export interface SettledPayment {
+  reference: string;
+  amount: number; // Minor units of `currency`
+  currency: string;
+  paidAt: Date;
+}
+
+/**
+ * Where the reconciliation report gets the provider's view of a day's
+ * payments. Swap the source used by the reconciliation service to replay a
+ * settlement file or to fake Paystack in development.
+ */
+export interface SettlementSource {
+  name: string;
+  /**
+   * Successful payments with a payment time in [from, to)
+   */
+  listSuccessfulPayments(from: Date, to: Date): Promise<SettledPayment[]>;
+}
+
+// Paystack filters the list on creation time, which can be well before the
+// payment time for slow checkouts, so the search starts this much earlier
+const LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Paystack's transaction list, read through the API
+ */
+export const paystackSettlementSource: SettlementSource = {
+  name: "paystack",
+
+  async listSuccessfulPayments(from: Date, to: Date) {
+    const payments: SettledPayment[] = [];
+    const searchFrom = new Date(from.getTime() - LOOKBACK_MS);
+
+    for (let page = 1, pageCount = 1; page <= pageCount; page++) {
+      const result = await paystackService.listTransactions(
+        searchFrom,
+        to,
+        page,
+        100,
+        "success"
+      );
+      pageCount = result.pageCount;
+
+      for (const transaction of result.data) {
+        const paidAt = transaction.paid_at
+          ? new Date(transaction.paid_at)
+          : undefined;
+        if (paidAt && paidAt >= from && paidAt < to) {
+          payments.push({
+            reference: transaction.reference,
+            amount: transaction.amount,
+            currency: transaction.currency,
+            paidAt,
+          });
+        }
+      }
+    }
+
+    return payments;
+  },
+};
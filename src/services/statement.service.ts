@@ -0,0 +1,274 @@
+import PDFDocument from "pdfkit";
+import { Currency, DEFAULT_CURRENCY, formatAmount } from "../config/currencies";
+import { LedgerEntry } from "../models/LedgerEntry";
+import { ITransaction, Transaction } from "../models/Transaction";
+import { User } from "../models/User";
+import { Wallet } from "../models/Wallet";
+import sandboxService from "./sandbox.service";
+
+export interface StatementLine {
+  date: Date;
+  reference: string;
+  description: string;
+  debit: number; // Minor units leaving the wallet
+  credit: number; // Minor units entering the wallet
+  balance: number; // Running balance after this line
+}
+
+export interface Statement {
+  accountName: string;
+  walletNumber: string;
+  currency: Currency;
+  from: Date;
+  to: Date;
+  openingBalance: number;
+  closingBalance: number;
+  lines: StatementLine[];
+}
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const escapeCsv = (value: string): string =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const describe = (
+  transaction: ITransaction | undefined,
+  direction: "debit" | "credit"
+): string => {
+  switch (transaction?.type) {
+    case "deposit":
+      return "Wallet deposit";
+    case "transfer":
+      return direction === "credit" ? "Transfer received" : "Transfer sent";
+    case "withdrawal":
+      return direction === "credit"
+        ? "Bank withdrawal returned"
+        : `Bank withdrawal to ${transaction.bankAccountNumber}`;
+    case "refund":
+      return `Refund of ${transaction.relatedReference}`;
+    case "conversion":
+      return direction === "credit"
+        ? "Currency conversion in"
+        : "Currency conversion out";
+    case "dispute":
+      return direction === "credit"
+        ? "Dispute hold released"
+        : `Dispute hold on ${transaction.relatedReference}`;
+    case "opening_balance":
+      return "Opening balance";
+    default:
+      return "Ledger adjustment";
+  }
+};
+
+const statementService = {
+  /**
+   * Build a statement for a user's wallet over [from, to]. Amounts come from
+   * the wallet's ledger entries, so held and returned funds (withdrawals,
+   * disputes) appear as separate lines at the time they moved.
+   */
+  async generate(
+    userId: string,
+    from: Date,
+    to: Date,
+    currency: Currency = DEFAULT_CURRENCY
+  ): Promise<Statement> {
+    if (from > to) {
+      throw new Error("Statement start date must be before the end date");
+    }
+
+    const wallet = await Wallet.findOne({ userId, currency });
+    if (!wallet) {
+      throw new Error("Wallet not found for this user");
+    }
+
+    const user = await User.findById(sandboxService.userIdOf(userId));
+
+    const [before] = await LedgerEntry.aggregate<{
+      credits: number;
+      debits: number;
+    }>([
+      { $match: { account: wallet.walletNumber, createdAt: { $lt: from } } },
+      {
+        $group: {
+          _id: null,
+          credits: {
+            $sum: { $cond: [{ $eq: ["$direction", "credit"] }, "$amount", 0] },
+          },
+          debits: {
+            $sum: { $cond: [{ $eq: ["$direction", "debit"] }, "$amount", 0] },
+          },
+        },
+      },
+    ]);
+    const openingBalance = before ? before.credits - before.debits : 0;
+
+    const entries = await LedgerEntry.find({
+      account: wallet.walletNumber,
+      createdAt: { $gte: from, $lte: to },
+    }).sort({ createdAt: 1, _id: 1 });
+
+    const transactions = await Transaction.find({
+      _id: { $in: entries.map((entry) => entry.transactionId) },
+    });
+    const transactionsById = new Map(transactions.map((tx) => [tx.id, tx]));
+
+    let balance = openingBalance;
+    const lines = entries.map((entry) => {
+      const credit = entry.direction === "credit" ? entry.amount : 0;
+      const debit = entry.direction === "debit" ? entry.amount : 0;
+      balance += credit - debit;
+
+      return {
+        date: entry.createdAt,
+        reference: entry.reference,
+        description: describe(
+          transactionsById.get(entry.transactionId),
+          entry.direction
+        ),
+        debit,
+        credit,
+        balance,
+      };
+    });
+
+    return {
+      accountName: user?.name || "Wallet user",
+      walletNumber: wallet.walletNumber,
+      currency: wallet.currency,
+      from,
+      to,
+      openingBalance,
+      closingBalance: balance,
+      lines,
+    };
+  },
+
+  toCsv(statement: Statement): string {
+    const { currency } = statement;
+    const format = (amount: number) => formatAmount(amount, currency);
+
+    const rows = [
+      ["Account name", statement.accountName],
+      ["Wallet number", statement.walletNumber],
+      ["Period", formatDate(statement.from), formatDate(statement.to)],
+      [`Opening balance (${currency})`, format(statement.openingBalance)],
+      [],
+      [
+        "Date",
+        "Reference",
+        "Description",
+        `Debit (${currency})`,
+        `Credit (${currency})`,
+        `Balance (${currency})`,
+      ],
+      ...statement.lines.map((line) => [
+        line.date.toISOString(),
+        line.reference,
+        line.description,
+        line.debit ? format(line.debit) : "",
+        line.credit ? format(line.credit) : "",
+        format(line.balance),
+      ]),
+      [],
+      [`Closing balance (${currency})`, format(statement.closingBalance)],
+    ];
+
+    return rows.map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n";
+  },
+
+  /**
+   * Render the statement as an A4 PDF using the built-in PDF fonts
+   */
+  toPdf(statement: Statement): Promise<Buffer> {
+    const { currency } = statement;
+    const format = (amount: number) => formatAmount(amount, currency);
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: "A4", margin: 40 });
+      const chunks: Buffer[] = [];
+
+      doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+      doc.on("end", () => resolve(Buffer.concat(chunks)));
+      doc.on("error", reject);
+
+      const columns = [
+        { header: "Date", x: 40, width: 65, align: "left" },
+        { header: "Reference", x: 105, width: 130, align: "left" },
+        { header: "Description", x: 235, width: 120, align: "left" },
+        { header: "Debit", x: 355, width: 65, align: "right" },
+        { header: "Credit", x: 420, width: 65, align: "right" },
+        { header: "Balance", x: 485, width: 70, align: "right" },
+      ] as const;
+
+      const drawRow = (values: string[], bold = false) => {
+        if (doc.y > doc.page.height - 80) {
+          doc.addPage();
+        }
+        const y = doc.y;
+        doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(8);
+        const heights = columns.map((column, i) =>
+          doc.heightOfString(values[i], { width: column.width })
+        );
+        columns.forEach((column, i) =>
+          doc.text(values[i], column.x, y, {
+            width: column.width,
+            align: column.align,
+          })
+        );
+        doc.x = 40;
+        doc.y = y + Math.max(...heights) + 4;
+      };
+
+      doc.font("Helvetica-Bold").fontSize(16).text("Account Statement");
+      doc.moveDown(0.5);
+      doc
+        .font("Helvetica")
+        .fontSize(10)
+        .text(`Account name: ${statement.accountName}`)
+        .text(`Wallet number: ${statement.walletNumber}`)
+        .text(
+          `Period: ${formatDate(statement.from)} to ${formatDate(statement.to)}`
+        )
+        .text(
+          `Opening balance: ${currency} ${format(statement.openingBalance)}`
+        );
+      doc.moveDown();
+
+      drawRow(
+        columns.map((column) => column.header),
+        true
+      );
+
+      if (!statement.lines.length) {
+        doc
+          .font("Helvetica")
+          .fontSize(9)
+          .text("No transactions in this period.");
+      }
+
+      for (const line of statement.lines) {
+        drawRow([
+          formatDate(line.date),
+          line.reference,
+          line.description,
+          line.debit ? format(line.debit) : "",
+          line.credit ? format(line.credit) : "",
+          format(line.balance),
+        ]);
+      }
+
+      doc.moveDown();
+      doc
+        .font("Helvetica-Bold")
+        .fontSize(10)
+        .text(
+          `Closing balance: ${currency} ${format(statement.closingBalance)}`
+        );
+
+      doc.end();
+    });
+  },
+};
+
+export default statementService;
@@ -0,0 +1,245 @@
+import mongoose, { FilterQuery } from "mongoose";
+import { Currency } from "../config/currencies";
+import {
+  ITransaction,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+} from "../models/Transaction";
+import { Wallet } from "../models/Wallet";
+
+const TRANSACTION_TYPES: TransactionType[] = [
+  "deposit",
+  "transfer",
+  "refund",
+  "dispute",
+  "withdrawal",
+  "conversion",
+  "opening_balance",
+];
+const TRANSACTION_STATUSES: TransactionStatus[] = [
+  "pending",
+  "success",
+  "failed",
+  "reversed",
+];
+
+export interface HistoryOptions {
+  limit?: number;
+  cursor?: string;
+  sortBy?: "createdAt" | "amount";
+  order?: "asc" | "desc";
+  type?: TransactionType;
+  status?: TransactionStatus;
+  currency?: Currency;
+  from?: Date;
+  to?: Date;
+  minAmount?: number;
+  maxAmount?: number;
+  counterparty?: string; // Wallet number of the other party
+}
+
+interface Cursor {
+  value: number | Date; // Sort field of the last result
+  id: string;
+}
+
+const encodeCursor = (transaction: ITransaction, sortBy: string): string => {
+  const value =
+    sortBy === "amount"
+      ? transaction.amount
+      : transaction.createdAt.toISOString();
+  return Buffer.from(JSON.stringify({ value, id: transaction.id })).toString(
+    "base64url"
+  );
+};
+
+// An amount for amount-sorted cursors, else a valid date
+const cursorValue = (value: unknown, sortBy: string) => {
+  if (sortBy === "amount") {
+    return typeof value === "number" && Number.isFinite(value)
+      ? value
+      : undefined;
+  }
+  const date = typeof value === "string" ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date : undefined;
+};
+
+/**
+ * Read a cursor made by `encodeCursor` for the same `sortBy`. Anything else,
+ * including a value of the wrong type, is an invalid cursor.
+ */
+const decodeCursor = (cursor: string, sortBy: string): Cursor => {
+  let decoded;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  const value = cursorValue(decoded?.value, sortBy);
+  if (
+    value === undefined ||
+    typeof decoded.id !== "string" ||
+    !mongoose.isValidObjectId(decoded.id)
+  ) {
+    throw new Error("Invalid cursor");
+  }
+  return { value, id: decoded.id };
+};
+
+const transactionService = {
+  /**
+   * Money direction of a transaction from the point of view of `userId`
+   */
+  getDirection(transaction: ITransaction, userId: string): "in" | "out" {
+    switch (transaction.type) {
+      case "deposit":
+      case "opening_balance":
+        return "in";
+      case "transfer":
+      case "conversion":
+        return transaction.receiverId === userId ? "in" : "out";
+      default:
+        return "out";
+    }
+  },
+
+  /**
+   * User on the other side of a wallet-to-wallet transfer
+   */
+  getCounterpartyId(transaction: ITransaction, userId: string) {
+    if (transaction.type !== "transfer") {
+      return undefined;
+    }
+    return transaction.senderId === userId
+      ? transaction.receiverId
+      : transaction.senderId;
+  },
+
+  /**
+   * Page through the transactions a user took part in, newest first by
+   * default. Pages are keyed on (sort field, _id) so results stay stable
+   * while new transactions arrive.
+   */
+  async history(userId: string, options: HistoryOptions = {}) {
+    const limit = Math.min(Math.max(options.limit || 20, 1), 100);
+    const sortBy = options.sortBy || "createdAt";
+    const direction = options.order === "asc" ? 1 : -1;
+
+    const conditions: FilterQuery<ITransaction>[] = [
+      { $or: [{ userId }, { senderId: userId }, { receiverId: userId }] },
+    ];
+
+    if (options.type) {
+      if (!TRANSACTION_TYPES.includes(options.type)) {
+        throw new Error("Invalid transaction type");
+      }
+      conditions.push({ type: options.type });
+    }
+
+    if (options.status) {
+      if (!TRANSACTION_STATUSES.includes(options.status)) {
+        throw new Error("Invalid transaction status");
+      }
+      conditions.push({ status: options.status });
+    }
+
+    if (options.currency) {
+      conditions.push({ currency: options.currency });
+    }
+
+    if (options.from || options.to) {
+      const createdAt: Record<string, Date> = {};
+      if (options.from) {
+        createdAt.$gte = options.from;
+      }
+      if (options.to) {
+        createdAt.$lte = options.to;
+      }
+      conditions.push({ createdAt });
+    }
+
+    if (options.minAmount !== undefined || options.maxAmount !== undefined) {
+      const amount: Record<string, number> = {};
+      if (options.minAmount !== undefined) {
+        amount.$gte = options.minAmount;
+      }
+      if (options.maxAmount !== undefined) {
+        amount.$lte = options.maxAmount;
+      }
+      conditions.push({ amount });
+    }
+
+    if (options.counterparty) {
+      const wallet = await Wallet.findOne({
+        walletNumber: options.counterparty,
+      });
+      if (!wallet) {
+        return { transactions: [], nextCursor: null, hasMore: false };
+      }
+      conditions.push({
+        $or: [
+          { senderId: userId, receiverId: wallet.userId },
+          { senderId: wallet.userId, receiverId: userId },
+        ],
+      });
+    }
+
+    if (options.cursor) {
+      const { value, id } = decodeCursor(options.cursor, sortBy);
+      const comparison = direction === 1 ? "$gt" : "$lt";
+      conditions.push({
+        $or: [
+          { [sortBy]: { [comparison]: value } },
+          {
+            [sortBy]: value,
+            _id: { [comparison]: new mongoose.Types.ObjectId(id) },
+          },
+        ],
+      });
+    }
+
+    const results = await Transaction.find({ $and: conditions })
+      .sort({ [sortBy]: direction, _id: direction })
+      .limit(limit + 1);
+
+    const hasMore = results.length > limit;
+    const page = results.slice(0, limit);
+
+    // Resolve counterparty wallet numbers in one query. Users hold one
+    // wallet per currency, so match on the transaction's currency too.
+    const counterpartyIds = page
+      .map((tx) => this.getCounterpartyId(tx, userId))
+      .filter((id): id is string => !!id);
+    const wallets = counterpartyIds.length
+      ? await Wallet.find({ userId: { $in: counterpartyIds } })
+      : [];
+    const walletNumbers = new Map(
+      wallets.map((wallet) => [
+        `${wallet.userId}:${wallet.currency}`,
+        wallet.walletNumber,
+      ])
+    );
+
+    return {
+      transactions: page.map((tx) => {
+        const counterpartyId = this.getCounterpartyId(tx, userId);
+        return {
+          transaction: tx,
+          direction: this.getDirection(tx, userId),
+          counterpartyWalletNumber: counterpartyId
+            ? walletNumbers.get(`${counterpartyId}:${tx.currency}`)
+            : undefined,
+        };
+      }),
+      nextCursor:
+        hasMore && page.length
+          ? encodeCursor(page[page.length - 1], sortBy)
+          : null,
+      hasMore,
+    };
+  },
+};
+
+export default transactionService;
@@ -0,0 +1,122 @@
+import mongoose from "mongoose";
+import { Currency, DEFAULT_CURRENCY } from "../config/currencies";
+import { Transaction } from "../models/Transaction";
+import { Wallet } from "../models/Wallet";
+import keyService from "./key.service";
+import ledgerService from "./ledger.service";
+import sandboxService from "./sandbox.service";
+import paystackService from "./wallet.service";
+import webhookDeliveryService from "./webhookDelivery.service";
+
+interface TransferOptions {
+  reference?: string; // Fixed reference, so a retried run cannot pay twice
+  scheduledTransferId?: string;
+  apiKeyId?: string; // Key the transfer is made with; its limits apply
+}
+
+const transferService = {
+  /**
+   * Transfer money from a user's wallet to another wallet. The debit, credit
+   * and Transaction record are committed together in one MongoDB transaction,
+   * and the debit only applies while the sender's balance covers the amount.
+   * Money is sent from the sender's wallet in `currency`, and the recipient
+   * wallet must hold the same currency. Both parties' webhook endpoints are
+   * notified once the transfer is committed.
+   */
+  async transfer(
+    senderUserId: string,
+    recipientWalletNumber: string,
+    amount: number,
+    currency: Currency = DEFAULT_CURRENCY,
+    options: TransferOptions = {}
+  ) {
+    if (!amount || typeof amount !== "number" || amount <= 0) {
+      throw new Error("Amount must be a positive number (in kobo)");
+    }
+
+    if (!Number.isInteger(amount)) {
+      throw new Error("Amount must be a whole number of minor units");
+    }
+
+    const senderWallet = await Wallet.findOne({
+      userId: senderUserId,
+      currency,
+    });
+    if (!senderWallet) {
+      throw new Error("Wallet not found for this user");
+    }
+
+    const recipientWallet = await Wallet.findOne({
+      walletNumber: recipientWalletNumber,
+    });
+    // Sandbox and live wallets cannot see each other
+    if (
+      !recipientWallet ||
+      !sandboxService.sameMode(recipientWallet.userId, senderUserId)
+    ) {
+      throw new Error("Recipient wallet not found");
+    }
+
+    if (recipientWallet.userId === senderUserId) {
+      throw new Error("You cannot transfer to yourself");
+    }
+
+    if (recipientWallet.currency !== currency) {
+      throw new Error(
+        "Cross-currency transfers are not supported; convert the funds first"
+      );
+    }
+
+    const transaction = await mongoose.connection.transaction(
+      async (session) => {
+        if (options.apiKeyId) {
+          await keyService.enforceLimits(
+            options.apiKeyId,
+            {
+              amount,
+              currency,
+              recipientWalletNumber: recipientWallet.walletNumber,
+            },
+            session
+          );
+        }
+
+        const [transaction] = await Transaction.create(
+          [
+            {
+              reference:
+                options.reference || paystackService.generateReference(),
+              amount,
+              currency,
+              type: "transfer",
+              status: "success",
+              senderId: senderUserId,
+              receiverId: recipientWallet.userId,
+              scheduledTransferId: options.scheduledTransferId,
+              apiKeyId: options.apiKeyId,
+            },
+          ],
+          { session }
+        );
+
+        await ledgerService.recordTransfer(
+          transaction,
+          senderWallet.walletNumber,
+          recipientWallet.walletNumber,
+          session
+        );
+
+        return transaction;
+      }
+    );
+
+    await webhookDeliveryService.emitTransfer(
+      transaction,
+      senderWallet.walletNumber,
+      recipientWallet.walletNumber
+    );
+    return transaction;
+  },
+};
+
+export default transferService;
@@ -0,0 +1,97 @@
+import { Currency, DEFAULT_CURRENCY } from "../config/currencies";
+import { User } from "../models/User";
+import { VirtualAccount } from "../models/VirtualAccount";
+import paystackService, { PaystackChargeData } from "./wallet.service";
+import walletAccountService from "./walletAccount.service";
+
+/**
+ * Paystack dedicated virtual accounts. Each one is a real bank account number
+ * tied to a single wallet: bank transfers into it arrive as charge.success
+ * webhooks on the dedicated_nuban channel and are credited to that wallet.
+ */
+const virtualAccountService = {
+  async find(userId: string, currency: Currency = DEFAULT_CURRENCY) {
+    return VirtualAccount.findOne({ userId, currency });
+  },
+
+  /**
+   * Return the wallet's virtual account, asking Paystack for one if the
+   * wallet has none yet
+   */
+  async assign(userId: string, currency: Currency = DEFAULT_CURRENCY) {
+    if (currency !== "NGN") {
+      throw new Error("Virtual accounts are only available for NGN wallets");
+    }
+
+    const existing = await this.find(userId, currency);
+    if (existing) {
+      return existing;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const wallet = await walletAccountService.open(userId, currency);
+
+    const [firstName, ...otherNames] = user.name.trim().split(/\s+/);
+    const customer = await paystackService.createCustomer(
+      user.email,
+      firstName,
+      otherNames.join(" ") || firstName
+    );
+    const account = await paystackService.createDedicatedAccount(
+      customer.customer_code
+    );
+
+    try {
+      return await VirtualAccount.create({
+        userId,
+        walletNumber: wallet.walletNumber,
+        currency,
+        paystackCustomerCode: customer.customer_code,
+        paystackDedicatedAccountId: account.id,
+        accountNumber: account.account_number,
+        accountName: account.account_name,
+        bankName: account.bank.name,
+        bankSlug: account.bank.slug,
+        active: account.active,
+      });
+    } catch (error: any) {
+      // Another request assigned the account first; Paystack returns the
+      // same dedicated account for a customer, so the stored one is current
+      if (error.code === 11000) {
+        const assigned = await this.find(userId, currency);
+        if (assigned) {
+          return assigned;
+        }
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Find the virtual account a bank transfer was paid into, by the receiving
+   * account number or, failing that, the Paystack customer
+   */
+  async findForCharge(data: PaystackChargeData) {
+    const accountNumber = data.authorization?.receiver_bank_account_number;
+    if (accountNumber) {
+      const account = await VirtualAccount.findOne({ accountNumber });
+      if (account) {
+        return account;
+      }
+    }
+
+    const customerCode = data.customer?.customer_code;
+    return customerCode
+      ? VirtualAccount.findOne({
+          paystackCustomerCode: customerCode,
+          currency: data.currency,
+        })
+      : null;
+  },
+};
+
+export default virtualAccountService;
@@ -1,6 +1,7 @@
 import axios from "axios";
 import config from "../config";
 import crypto from "crypto";
+import { Currency, DEFAULT_CURRENCY } from "../config/currencies";
 
 interface PaystackInitializeResponse {
   status: boolean;
@@ -13,46 +14,300 @@ interface PaystackInitializeResponse {
 }
 
 interface PaystackVerifyResponse {
+  status: boolean;
+  message: string;
+  data: Omit<PaystackChargeData, "status"> & {
+    status: "success" | "failed" | "pending";
+    transaction_date: string;
+  };
+}
+
+/**
+ * Payment channels a customer can be offered on the Paystack checkout
+ */
+export const PAYSTACK_CHANNELS = [
+  "card",
+  "bank",
+  "ussd",
+  "qr",
+  "mobile_money",
+  "bank_transfer",
+  "eft",
+  "apple_pay",
+] as const;
+
+export type PaystackChannel = (typeof PAYSTACK_CHANNELS)[number];
+
+interface InitializeOptions {
+  callbackUrl?: string;
+  channels?: PaystackChannel[];
+  metadata?: Record<string, unknown>;
+}
+
+interface PaystackTransferRecipientResponse {
+  status: boolean;
+  message: string;
+  data: {
+    recipient_code: string;
+    name: string;
+    details: {
+      account_number: string;
+      account_name: string | null;
+      bank_code: string;
+      bank_name: string;
+    };
+  };
+}
+
+interface PaystackTransferResponse {
   status: boolean;
   message: string;
   data: {
     reference: string;
+    transfer_code: string;
     amount: number;
-    status: "success" | "failed" | "pending";
-    paid_at: string | null;
-    transaction_date: string;
-    gateway_response: string;
+    status: "pending" | "success" | "failed" | "otp";
+  };
+}
+
+interface PaystackTransferVerifyResponse {
+  status: boolean;
+  message: string;
+  data: Omit<PaystackTransferResponse["data"], "status"> & {
+    status:
+      | PaystackTransferResponse["data"]["status"]
+      | "reversed"
+      | "abandoned"
+      | "blocked"
+      | "rejected"
+      | "received";
+    currency: string;
+    id: number;
+  };
+}
+
+interface PaystackBankListResponse {
+  status: boolean;
+  message: string;
+  data: {
+    name: string;
+    code: string;
+    slug: string;
+    currency: string;
+    active: boolean;
+  }[];
+}
+
+interface PaystackResolveAccountResponse {
+  status: boolean;
+  message: string;
+  data: {
+    account_number: string;
+    account_name: string;
+    bank_id: number;
+  };
+}
+
+export interface PaystackAuthorization {
+  authorization_code: string;
+  bin?: string;
+  last4: string;
+  exp_month: string;
+  exp_year: string;
+  channel?: string;
+  card_type?: string;
+  bank?: string;
+  country_code?: string;
+  brand: string;
+  reusable: boolean;
+  signature: string;
+  receiver_bank_account_number?: string | null; // Virtual account paid into
+  sender_name?: string | null;
+  sender_bank?: string | null;
+}
+
+export interface PaystackChargeData {
+  id: number;
+  reference: string;
+  amount: number;
+  currency: string;
+  status: "success" | "failed" | "abandoned" | "reversed";
+  paid_at?: string | null;
+  channel?: string;
+  gateway_response?: string;
+  authorization?: PaystackAuthorization;
+  customer?: {
+    email: string;
+    customer_code?: string;
+  };
+}
+
+interface PaystackCustomerResponse {
+  status: boolean;
+  message: string;
+  data: {
+    id: number;
+    customer_code: string;
+    email: string;
   };
 }
 
+interface PaystackDedicatedAccountResponse {
+  status: boolean;
+  message: string;
+  data: {
+    id: number;
+    account_name: string;
+    account_number: string;
+    currency: string;
+    active: boolean;
+    bank: {
+      id: number;
+      name: string;
+      slug: string;
+    };
+  };
+}
+
+interface PaystackTransactionListResponse {
+  status: boolean;
+  message: string;
+  data: PaystackChargeData[];
+  meta: {
+    total: number;
+    page: number;
+    perPage: number;
+    pageCount: number;
+  };
+}
+
+interface PaystackChargeAuthorizationResponse {
+  status: boolean;
+  message: string;
+  data: Omit<PaystackChargeData, "status"> & {
+    status: PaystackChargeData["status"] | "pending" | "send_otp";
+  };
+}
+
+export interface PaystackRefundData {
+  id: number;
+  transaction_reference: string;
+  amount: number;
+  currency: string;
+  status: "processed" | "failed";
+}
+
+export interface PaystackDisputeData {
+  id: number;
+  refund_amount?: number | null;
+  currency: string;
+  status: string;
+  resolution?: "merchant-accepted" | "declined" | null;
+  transaction: {
+    reference: string;
+    amount: number;
+  };
+}
+
+export interface PaystackTransferData {
+  id: number;
+  reference: string;
+  amount: number;
+  currency: string;
+  status: "success" | "failed" | "reversed";
+  transfer_code: string;
+  reason?: string;
+}
+
+/**
+ * Paystack webhook payloads handled by the wallet, keyed on `event`
+ */
+export type PaystackWebhookEvent =
+  | { event: "charge.success" | "charge.failed"; data: PaystackChargeData }
+  | { event: "refund.processed" | "refund.failed"; data: PaystackRefundData }
+  | {
+      event: "charge.dispute.create" | "charge.dispute.resolve";
+      data: PaystackDisputeData;
+    }
+  | {
+      event: "transfer.success" | "transfer.failed" | "transfer.reversed";
+      data: PaystackTransferData;
+    };
+
+/**
+ * Reference of our Transaction that a webhook event applies to
+ */
+export const getWebhookReference = (
+  event: PaystackWebhookEvent
+): string | undefined => {
+  switch (event.event) {
+    case "refund.processed":
+    case "refund.failed":
+      return event.data?.transaction_reference;
+    case "charge.dispute.create":
+    case "charge.dispute.resolve":
+      return event.data?.transaction?.reference;
+    default:
+      return event.data?.reference;
+  }
+};
+
+/**
+ * Key identifying a single occurrence of an event. Refunds and disputes are
+ * keyed on their own id since one transaction can have several of them.
+ */
+export const getWebhookDedupeKey = (
+  event: PaystackWebhookEvent
+): string | undefined => {
+  switch (event.event) {
+    case "refund.processed":
+    case "refund.failed":
+    case "charge.dispute.create":
+    case "charge.dispute.resolve":
+      return event.data?.id ? `${event.event}:${event.data.id}` : undefined;
+    default: {
+      const reference = getWebhookReference(event);
+      return reference ? `${event.event}:${reference}` : undefined;
+    }
+  }
+};
+
 class PaystackService {
   private readonly secretKey: string;
   private readonly baseUrl = "https://api.paystack.co";
   private readonly webhookSecret: string;
+  private readonly timeoutMs: number;
 
   constructor() {
     this.secretKey = config.paystack.secretKey;
     this.webhookSecret = config.paystack.webhookSecret;
+    this.timeoutMs = config.paystack.timeoutMs;
   }
 
   /**
-   * Initialize a payment transaction
+   * Initialize a payment transaction. `amount` is in the currency's minor unit.
    */
   async initializeTransaction(
     amount: number,
     email: string,
-    reference?: string
+    reference?: string,
+    currency: Currency = DEFAULT_CURRENCY,
+    options: InitializeOptions = {}
   ): Promise<PaystackInitializeResponse["data"]> {
     try {
       const response = await axios.post<PaystackInitializeResponse>(
         `${this.baseUrl}/transaction/initialize`,
         {
-          amount: Math.round(amount), // Amount in kobo (smallest currency unit)
+          amount: Math.round(amount), // Smallest currency unit (kobo, pesewas, cents)
           email,
           reference,
-          currency: "NGN",
+          currency,
+          callback_url: options.callbackUrl,
+          channels: options.channels,
+          metadata: options.metadata,
         },
         {
+          timeout: this.timeoutMs,
           headers: {
             Authorization: `Bearer ${this.secretKey}`,
             "Content-Type": "application/json",
@@ -76,6 +331,163 @@ class PaystackService {
     }
   }
 
+  /**
+   * Charge a saved card authorization without redirecting the customer.
+   * `email` must be the one the authorization was issued to.
+   */
+  async chargeAuthorization(
+    amount: number,
+    email: string,
+    authorizationCode: string,
+    reference: string,
+    currency: Currency = DEFAULT_CURRENCY
+  ): Promise<PaystackChargeAuthorizationResponse["data"]> {
+    try {
+      const response = await axios.post<PaystackChargeAuthorizationResponse>(
+        `${this.baseUrl}/transaction/charge_authorization`,
+        {
+          amount: Math.round(amount), // Smallest currency unit (kobo, pesewas, cents)
+          email,
+          authorization_code: authorizationCode,
+          reference,
+          currency,
+        },
+        {
+          timeout: this.timeoutMs,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || "Failed to charge card");
+      }
+
+      return response.data.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.message || error.message;
+        throw new Error(`Paystack card charge failed: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Deactivate a card authorization so it can no longer be charged
+   */
+  async deactivateAuthorization(authorizationCode: string): Promise<void> {
+    try {
+      const response = await axios.post<{ status: boolean; message: string }>(
+        `${this.baseUrl}/customer/deactivate_authorization`,
+        { authorization_code: authorizationCode },
+        {
+          timeout: this.timeoutMs,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error(
+          response.data.message || "Failed to deactivate authorization"
+        );
+      }
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.message || error.message;
+        throw new Error(
+          `Paystack authorization deactivation failed: ${message}`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create a Paystack customer, or fetch the existing one for `email`
+   */
+  async createCustomer(
+    email: string,
+    firstName: string,
+    lastName: string
+  ): Promise<PaystackCustomerResponse["data"]> {
+    try {
+      const response = await axios.post<PaystackCustomerResponse>(
+        `${this.baseUrl}/customer`,
+        {
+          email,
+          first_name: firstName,
+          last_name: lastName,
+        },
+        {
+          timeout: this.timeoutMs,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || "Failed to create customer");
+      }
+
+      return response.data.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.message || error.message;
+        throw new Error(`Paystack customer creation failed: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Assign a dedicated virtual bank account to a customer
+   */
+  async createDedicatedAccount(
+    customerCode: string,
+    preferredBank: string = config.paystack.dedicatedAccountBank
+  ): Promise<PaystackDedicatedAccountResponse["data"]> {
+    try {
+      const response = await axios.post<PaystackDedicatedAccountResponse>(
+        `${this.baseUrl}/dedicated_account`,
+        {
+          customer: customerCode,
+          preferred_bank: preferredBank,
+        },
+        {
+          timeout: this.timeoutMs,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error(
+          response.data.message || "Failed to create dedicated account"
+        );
+      }
+
+      return response.data.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.message || error.message;
+        throw new Error(
+          `Paystack dedicated account creation failed: ${message}`
+        );
+      }
+      throw error;
+    }
+  }
+
   /**
    * Verify a transaction
    */
@@ -86,6 +498,7 @@ class PaystackService {
       const response = await axios.get<PaystackVerifyResponse>(
         `${this.baseUrl}/transaction/verify/${reference}`,
         {
+          timeout: this.timeoutMs,
           headers: {
             Authorization: `Bearer ${this.secretKey}`,
           },
@@ -108,6 +521,281 @@ class PaystackService {
     }
   }
 
+  /**
+   * List one page of transactions created between `from` and `to`
+   */
+  async listTransactions(
+    from: Date,
+    to: Date,
+    page = 1,
+    perPage = 100,
+    status?: PaystackChargeData["status"]
+  ): Promise<{
+    data: PaystackTransactionListResponse["data"];
+    pageCount: number;
+  }> {
+    try {
+      const response = await axios.get<PaystackTransactionListResponse>(
+        `${this.baseUrl}/transaction`,
+        {
+          params: {
+            from: from.toISOString(),
+            to: to.toISOString(),
+            page,
+            perPage,
+            status,
+          },
+          timeout: this.timeoutMs,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+          },
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || "Failed to list transactions");
+      }
+
+      return {
+        data: response.data.data,
+        pageCount: response.data.meta?.pageCount || 1,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.message || error.message;
+        throw new Error(`Paystack transaction list failed: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List banks that can receive transfers
+   */
+  async listBanks(): Promise<PaystackBankListResponse["data"]> {
+    try {
+      const response = await axios.get<PaystackBankListResponse>(
+        `${this.baseUrl}/bank`,
+        {
+          params: { country: "nigeria", currency: "NGN" },
+          timeout: this.timeoutMs,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+          },
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || "Failed to list banks");
+      }
+
+      return response.data.data.filter((bank) => bank.active);
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.message || error.message;
+        throw new Error(`Paystack bank list failed: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve the account holder name for a bank account
+   */
+  async resolveAccount(
+    accountNumber: string,
+    bankCode: string
+  ): Promise<PaystackResolveAccountResponse["data"]> {
+    try {
+      const response = await axios.get<PaystackResolveAccountResponse>(
+        `${this.baseUrl}/bank/resolve`,
+        {
+          params: { account_number: accountNumber, bank_code: bankCode },
+          timeout: this.timeoutMs,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+          },
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || "Failed to resolve account");
+      }
+
+      return response.data.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.message || error.message;
+        throw new Error(`Paystack account resolution failed: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create a transfer recipient for a Nigerian bank account
+   */
+  async createTransferRecipient(
+    name: string,
+    accountNumber: string,
+    bankCode: string
+  ): Promise<PaystackTransferRecipientResponse["data"]> {
+    try {
+      const response = await axios.post<PaystackTransferRecipientResponse>(
+        `${this.baseUrl}/transferrecipient`,
+        {
+          type: "nuban",
+          name,
+          account_number: accountNumber,
+          bank_code: bankCode,
+          currency: "NGN",
+        },
+        {
+          timeout: this.timeoutMs,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error(
+          response.data.message || "Failed to create transfer recipient"
+        );
+      }
+
+      return response.data.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.message || error.message;
+        throw new Error(`Paystack recipient creation failed: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Initiate a transfer from the Paystack balance to a recipient
+   */
+  async initiateTransfer(
+    amount: number,
+    recipientCode: string,
+    reference: string,
+    reason?: string
+  ): Promise<PaystackTransferResponse["data"]> {
+    try {
+      const response = await axios.post<PaystackTransferResponse>(
+        `${this.baseUrl}/transfer`,
+        {
+          source: "balance",
+          amount: Math.round(amount), // Amount in kobo
+          recipient: recipientCode,
+          reference,
+          reason,
+        },
+        {
+          timeout: this.timeoutMs,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error(
+          `Paystack rejected the transfer: ${
+            response.data.message || "Failed to initiate transfer"
+          }`
+        );
+      }
+
+      return response.data.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.message || error.message;
+        // Paystack only turns a request away with a 4xx; after a timeout or
+        // a 5xx the transfer may still have been accepted
+        const status = error.response?.status;
+        if (status && status >= 400 && status < 500) {
+          throw new Error(`Paystack rejected the transfer: ${message}`);
+        }
+        throw new Error(`Paystack transfer failed: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Look up a transfer by our reference. Returns null when Paystack has no
+   * transfer with that reference.
+   */
+  async verifyTransfer(
+    reference: string
+  ): Promise<PaystackTransferVerifyResponse["data"] | null> {
+    try {
+      const response = await axios.get<PaystackTransferVerifyResponse>(
+        `${this.baseUrl}/transfer/verify/${reference}`,
+        {
+          timeout: this.timeoutMs,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+          },
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || "Failed to verify transfer");
+      }
+
+      return response.data.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404) {
+          return null;
+        }
+        const message = error.response?.data?.message || error.message;
+        throw new Error(`Paystack transfer verification failed: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a transfer Paystack is holding for OTP confirmation
+   */
+  async finalizeTransfer(
+    transferCode: string,
+    otp: string
+  ): Promise<PaystackTransferResponse["data"]> {
+    try {
+      const response = await axios.post<PaystackTransferResponse>(
+        `${this.baseUrl}/transfer/finalize_transfer`,
+        { transfer_code: transferCode, otp },
+        {
+          timeout: this.timeoutMs,
+          headers: {
+            Authorization: `Bearer ${this.secretKey}`,
+            "Content-Type": "application/json",
+          },
+        }
+      );
+
+      if (!response.data.status) {
+        throw new Error(response.data.message || "Failed to finalize transfer");
+      }
+
+      return response.data.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const message = error.response?.data?.message || error.message;
+        throw new Error(`Paystack transfer finalization failed: ${message}`);
+      }
+      throw error;
+    }
+  }
+
   /**
    * Verify webhook signature
    */
@@ -133,6 +821,13 @@ class PaystackService {
     const random = Math.random().toString(36).substring(2, 15);
     return `PS_${timestamp}_${random}`.toUpperCase();
   }
+
+  /**
+   * Generate a transfer reference (Paystack requires lowercase for transfers)
+   */
+  generateTransferReference(): string {
+    return `wd_${this.generateReference().slice(3).toLowerCase()}`;
+  }
 }
 
 export default new PaystackService();
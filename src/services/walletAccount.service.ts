@@ -0,0 +1,67 @@
+import {
+  Currency,
+  DEFAULT_CURRENCY,
+  isSupportedCurrency,
+} from "../config/currencies";
+import { Wallet } from "../models/Wallet";
+import googleAuthService from "./googleAuth.service";
+
+/**
+ * A user has one wallet per currency they hold. The NGN wallet is opened at
+ * sign-in; wallets in other currencies are opened on request or on the first
+ * deposit in that currency.
+ */
+const walletAccountService = {
+  /**
+   * Validate a currency from a request, defaulting to NGN when omitted
+   */
+  parseCurrency(value: unknown): Currency {
+    if (value === undefined || value === null || value === "") {
+      return DEFAULT_CURRENCY;
+    }
+
+    const currency = typeof value === "string" ? value.toUpperCase() : value;
+    if (!isSupportedCurrency(currency)) {
+      throw new Error("Unsupported currency");
+    }
+    return currency;
+  },
+
+  async find(userId: string, currency: Currency = DEFAULT_CURRENCY) {
+    return Wallet.findOne({ userId, currency });
+  },
+
+  async list(userId: string) {
+    return Wallet.find({ userId }).sort({ createdAt: 1 });
+  },
+
+  /**
+   * Return the user's wallet in `currency`, creating it if needed
+   */
+  async open(userId: string, currency: Currency = DEFAULT_CURRENCY) {
+    const existing = await this.find(userId, currency);
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      return await Wallet.create({
+        walletNumber: googleAuthService.generateWallet(),
+        currency,
+        balance: 0,
+        userId,
+      });
+    } catch (error: any) {
+      // Another request opened the same wallet first
+      if (error.code === 11000) {
+        const wallet = await this.find(userId, currency);
+        if (wallet) {
+          return wallet;
+        }
+      }
+      throw error;
+    }
+  },
+};
+
+export default walletAccountService;
@@ -0,0 +1,384 @@
+import mongoose, { ClientSession } from "mongoose";
+import {
+  IWebhookEvent,
+  WebhookEvent,
+  WebhookEventStatus,
+} from "../models/WebhookEvent";
+import {
+  ITransaction,
+  Transaction,
+  TransactionStatus,
+} from "../models/Transaction";
+import { Wallet } from "../models/Wallet";
+import depositSettlementService from "./depositSettlement.service";
+import ledgerService, { SYSTEM_ACCOUNTS } from "./ledger.service";
+import {
+  getWebhookDedupeKey,
+  getWebhookReference,
+  PaystackDisputeData,
+  PaystackRefundData,
+  PaystackTransferData,
+  PaystackWebhookEvent,
+} from "./wallet.service";
+
+type ApplyResult = Extract<
+  WebhookEventStatus,
+  "processed" | "duplicate" | "ignored"
+>;
+
+type PostFn = (
+  transaction: ITransaction,
+  walletNumber: string,
+  session: ClientSession
+) => Promise<unknown>;
+
+// Longest body kept for a delivery whose signature did not verify
+const MAX_REJECTED_BODY_LENGTH = 4096;
+
+const webhookService = {
+  /**
+   * Store a received webhook before anything is done with it. Only the start
+   * of a rejected delivery's body is kept, and its payload is dropped when the
+   * body was cut, so forged posts cannot fill the collection.
+   */
+  async record(
+    rawBody: string,
+    payload: PaystackWebhookEvent,
+    signature: string | undefined,
+    signatureValid: boolean
+  ) {
+    const truncated =
+      !signatureValid && rawBody.length > MAX_REJECTED_BODY_LENGTH;
+    const kept = truncated ? undefined : payload;
+
+    return WebhookEvent.create({
+      event: kept?.event || "unknown",
+      reference: kept ? getWebhookReference(kept) : undefined,
+      dedupeKey: kept ? getWebhookDedupeKey(kept) : undefined,
+      payload: kept ?? {},
+      rawBody: truncated ? rawBody.slice(0, MAX_REJECTED_BODY_LENGTH) : rawBody,
+      signature,
+      signatureValid,
+      status: signatureValid ? "received" : "rejected",
+    });
+  },
+
+  /**
+   * Apply a stored event and record the outcome on it. An event is only
+   * applied once: redeliveries are marked duplicate, and every balance change
+   * is guarded by the transaction's status transition.
+   */
+  async process(webhookEvent: IWebhookEvent) {
+    webhookEvent.attempts += 1;
+
+    try {
+      const alreadyProcessed =
+        webhookEvent.dedupeKey &&
+        (await WebhookEvent.exists({
+          _id: { $ne: webhookEvent._id },
+          dedupeKey: webhookEvent.dedupeKey,
+          status: "processed",
+        }));
+
+      webhookEvent.status = alreadyProcessed
+        ? "duplicate"
+        : await this.apply(webhookEvent.payload as PaystackWebhookEvent);
+      webhookEvent.error = undefined;
+      webhookEvent.processedAt = new Date();
+    } catch (error) {
+      webhookEvent.status = "failed";
+      webhookEvent.error =
+        error instanceof Error ? error.message : String(error);
+    }
+
+    await webhookEvent.save();
+    return webhookEvent;
+  },
+
+  async apply(payload: PaystackWebhookEvent): Promise<ApplyResult> {
+    switch (payload.event) {
+      case "charge.success":
+        return depositSettlementService.credit(payload.data);
+      case "charge.failed":
+        return depositSettlementService.fail(payload.data.reference);
+      case "refund.processed":
+      case "refund.failed":
+        return this.applyRefund(payload.event, payload.data);
+      case "charge.dispute.create":
+        return this.openDispute(payload.data);
+      case "charge.dispute.resolve":
+        return this.resolveDispute(payload.data);
+      case "transfer.success":
+      case "transfer.failed":
+      case "transfer.reversed":
+        return this.settlePayout(payload.event, payload.data);
+      default:
+        return "ignored";
+    }
+  },
+
+  /**
+   * Record a refund of a deposit. Processed refunds debit the wallet, since
+   * the money has gone back to the customer's card.
+   */
+  async applyRefund(
+    event: "refund.processed" | "refund.failed",
+    data: PaystackRefundData
+  ): Promise<ApplyResult> {
+    const deposit = await this.findTransaction(data.transaction_reference);
+
+    return this.createLinked(
+      deposit,
+      {
+        reference: `REFUND_${data.id}`,
+        type: "refund",
+        amount: data.amount,
+        status: event === "refund.processed" ? "success" : "failed",
+      },
+      event === "refund.processed"
+        ? (refund, walletNumber, session) =>
+            ledgerService.post(
+              refund,
+              walletNumber,
+              SYSTEM_ACCOUNTS.paystack,
+              session
+            )
+        : undefined
+    );
+  },
+
+  /**
+   * Hold the disputed amount out of the wallet while a chargeback is open
+   */
+  async openDispute(data: PaystackDisputeData): Promise<ApplyResult> {
+    const deposit = await this.findTransaction(data.transaction.reference);
+
+    return this.createLinked(
+      deposit,
+      {
+        reference: `DISPUTE_${data.id}`,
+        type: "dispute",
+        amount: data.refund_amount || data.transaction.amount,
+        status: "pending",
+      },
+      (dispute, walletNumber, session) =>
+        ledgerService.post(
+          dispute,
+          walletNumber,
+          SYSTEM_ACCOUNTS.disputes,
+          session
+        )
+    );
+  },
+
+  /**
+   * Release or forfeit the held amount once a chargeback is resolved. If the
+   * merchant accepted the dispute the customer keeps the money; if it was
+   * declined the hold goes back to the wallet.
+   */
+  async resolveDispute(data: PaystackDisputeData): Promise<ApplyResult> {
+    const dispute = await this.findTransaction(`DISPUTE_${data.id}`);
+
+    if (data.resolution === "declined") {
+      return this.transition(
+        dispute,
+        ["pending"],
+        "reversed",
+        (settled, walletNumber, session) =>
+          ledgerService.post(
+            settled,
+            SYSTEM_ACCOUNTS.disputes,
+            walletNumber,
+            session
+          )
+      );
+    }
+
+    return this.transition(
+      dispute,
+      ["pending"],
+      "success",
+      (settled, _walletNumber, session) =>
+        ledgerService.post(
+          settled,
+          SYSTEM_ACCOUNTS.disputes,
+          SYSTEM_ACCOUNTS.paystack,
+          session
+        )
+    );
+  },
+
+  /**
+   * Finalise a Paystack transfer whose funds are held in the payouts account.
+   * Failed transfers return the hold to the wallet; a transfer reversed after
+   * it succeeded is credited back from Paystack.
+   */
+  async settlePayout(
+    event: "transfer.success" | "transfer.failed" | "transfer.reversed",
+    data: PaystackTransferData
+  ): Promise<ApplyResult> {
+    const payout = await this.findTransaction(data.reference);
+
+    const releaseHold: PostFn = (settled, walletNumber, session) =>
+      ledgerService.post(
+        settled,
+        SYSTEM_ACCOUNTS.payouts,
+        walletNumber,
+        session
+      );
+
+    if (event === "transfer.success") {
+      return this.transition(
+        payout,
+        ["pending"],
+        "success",
+        (settled, _walletNumber, session) =>
+          ledgerService.post(
+            settled,
+            SYSTEM_ACCOUNTS.payouts,
+            SYSTEM_ACCOUNTS.paystack,
+            session
+          ),
+        { paidAt: new Date() }
+      );
+    }
+
+    if (event === "transfer.failed") {
+      return this.transition(payout, ["pending"], "failed", releaseHold);
+    }
+
+    if (payout.status === "success") {
+      return this.transition(
+        payout,
+        ["success"],
+        "reversed",
+        (settled, walletNumber, session) =>
+          ledgerService.post(
+            settled,
+            SYSTEM_ACCOUNTS.paystack,
+            walletNumber,
+            session
+          )
+      );
+    }
+
+    return this.transition(payout, ["pending"], "reversed", releaseHold);
+  },
+
+  async findTransaction(reference: string) {
+    const transaction = await Transaction.findOne({ reference });
+    if (!transaction) {
+      throw new Error(`Transaction with reference ${reference} not found`);
+    }
+    return transaction;
+  },
+
+  async findWalletNumber(transaction: ITransaction) {
+    const userId = transaction.userId || transaction.senderId;
+    const wallet = await Wallet.findOne({
+      userId,
+      currency: transaction.currency,
+    });
+    if (!wallet) {
+      throw new Error(
+        `Wallet for transaction ${transaction.reference} not found`
+      );
+    }
+    return wallet.walletNumber;
+  },
+
+  /**
+   * Guarded status transition with ledger postings (see ledgerService).
+   * Returns "duplicate" if the transaction had already left `from`.
+   */
+  async transition(
+    transaction: ITransaction,
+    from: TransactionStatus[],
+    to: TransactionStatus,
+    post?: PostFn,
+    update: Record<string, unknown> = {}
+  ): Promise<ApplyResult> {
+    const walletNumber = post ? await this.findWalletNumber(transaction) : "";
+
+    const applied = await ledgerService.transition(
+      transaction,
+      from,
+      to,
+      post && ((settled, session) => post(settled, walletNumber, session)),
+      update
+    );
+
+    return applied ? "processed" : "duplicate";
+  },
+
+  /**
+   * Create a transaction linked to a deposit (refund or dispute) and run its
+   * ledger postings atomically. Its reference is derived from the Paystack id,
+   * so a second attempt hits the unique index and is reported as duplicate.
+   */
+  async createLinked(
+    deposit: ITransaction,
+    fields: {
+      reference: string;
+      type: "refund" | "dispute";
+      amount: number;
+      status: TransactionStatus;
+    },
+    post?: PostFn
+  ): Promise<ApplyResult> {
+    const walletNumber = await this.findWalletNumber(deposit);
+
+    try {
+      await mongoose.connection.transaction(async (session) => {
+        const [linked] = await Transaction.create(
+          [
+            {
+              ...fields,
+              currency: deposit.currency,
+              userId: deposit.userId,
+              relatedReference: deposit.reference,
+            },
+          ],
+          { session }
+        );
+
+        if (post) {
+          await post(linked, walletNumber, session);
+        }
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return "duplicate";
+      }
+      throw error;
+    }
+
+    return "processed";
+  },
+
+  /**
+   * Re-run a stored event that failed to process
+   */
+  async replay(id: string) {
+    const webhookEvent = mongoose.isValidObjectId(id)
+      ? await WebhookEvent.findById(id)
+      : null;
+
+    if (!webhookEvent) {
+      throw new Error("Webhook event not found");
+    }
+
+    if (webhookEvent.status !== "failed") {
+      throw new Error("Only failed webhook events can be replayed");
+    }
+
+    return this.process(webhookEvent);
+  },
+
+  async list(status?: string, limit = 50) {
+    const filter = status ? { status } : {};
+    return WebhookEvent.find(filter).sort({ createdAt: -1 }).limit(limit);
+  },
+};
+
+export default webhookService;
@@ -0,0 +1,290 @@
+import axios from "axios";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import config from "../config";
+import { ITransaction } from "../models/Transaction";
+import { IWebhookDelivery, WebhookDelivery } from "../models/WebhookDelivery";
+import { OutboundEventType, WebhookEndpoint } from "../models/WebhookEndpoint";
+import sandboxService from "./sandbox.service";
+import { resolvePublicHost } from "./webhookEndpoint.service";
+
+// How long a sender may hold a delivery before another one can take it
+const LOCK_MS = 2 * 60 * 1000;
+
+const lockFree = (now: Date) => ({
+  $or: [
+    { lockedUntil: { $exists: false } },
+    { lockedUntil: null },
+    { lockedUntil: { $lte: now } },
+  ],
+});
+
+/**
+ * Sends wallet events to the endpoints users registered. Each event is
+ * stored as one delivery per subscribed endpoint, tried straight away and
+ * retried with exponential backoff until the endpoint answers 2xx or
+ * `maxAttempts` is reached. Bodies are signed the way Paystack signs its
+ * webhooks: an HMAC-SHA512 of the raw body, keyed with the endpoint secret.
+ */
+const webhookDeliveryService = {
+  /**
+   * Hex HMAC-SHA512 of `body`, sent as x-wallet-signature
+   */
+  sign(body: string, secret: string) {
+    return crypto.createHmac("sha512", secret).update(body).digest("hex");
+  },
+
+  /**
+   * Queue an event for every active endpoint of `userId` subscribed to it.
+   * `eventId` identifies the occurrence, so emitting it again is a no-op.
+   * Failures are logged and never reach the caller: the money movement that
+   * raised the event has already happened. Sandbox events go to the real
+   * user's endpoints with `livemode: false`.
+   */
+  async emit(
+    ownerId: string,
+    event: OutboundEventType,
+    eventId: string,
+    data: Record<string, unknown>
+  ) {
+    const userId = sandboxService.userIdOf(ownerId);
+    try {
+      const endpoints = await WebhookEndpoint.find({
+        userId,
+        active: true,
+        events: event,
+      });
+      if (endpoints.length === 0) {
+        return;
+      }
+
+      const body = JSON.stringify({
+        id: eventId,
+        event,
+        livemode: !sandboxService.isSandbox(ownerId),
+        created_at: new Date().toISOString(),
+        data,
+      });
+
+      for (const endpoint of endpoints) {
+        let delivery: IWebhookDelivery;
+        try {
+          // Created already claimed, so the worker leaves the first attempt
+          // to this process
+          delivery = await WebhookDelivery.create({
+            endpointId: endpoint.id,
+            userId,
+            eventId,
+            event,
+            body,
+            nextAttemptAt: new Date(),
+            lockedUntil: new Date(Date.now() + LOCK_MS),
+          });
+        } catch (error: any) {
+          if (error.code === 11000) {
+            continue;
+          }
+          throw error;
+        }
+
+        this.attempt(delivery).catch((error) =>
+          console.error(`Webhook delivery ${delivery.id} failed:`, error)
+        );
+      }
+    } catch (error) {
+      console.error(`Failed to emit ${event} (${eventId}):`, error);
+    }
+  },
+
+  /**
+   * deposit.succeeded for the wallet owner
+   */
+  async emitDeposit(deposit: ITransaction, walletNumber: string) {
+    if (!deposit.userId) {
+      return;
+    }
+
+    await this.emit(
+      deposit.userId,
+      "deposit.succeeded",
+      `deposit.succeeded:${deposit.reference}`,
+      {
+        reference: deposit.reference,
+        amount: deposit.amount,
+        currency: deposit.currency,
+        wallet_number: walletNumber,
+        paid_at: deposit.paidAt,
+      }
+    );
+  },
+
+  /**
+   * transfer.sent for the sender and transfer.received for the recipient
+   */
+  async emitTransfer(
+    transfer: ITransaction,
+    senderWalletNumber: string,
+    recipientWalletNumber: string
+  ) {
+    const data = {
+      reference: transfer.reference,
+      amount: transfer.amount,
+      currency: transfer.currency,
+      sender_wallet_number: senderWalletNumber,
+      recipient_wallet_number: recipientWalletNumber,
+      created_at: transfer.createdAt,
+    };
+
+    if (transfer.senderId) {
+      await this.emit(
+        transfer.senderId,
+        "transfer.sent",
+        `transfer.sent:${transfer.reference}`,
+        { ...data, scheduled_transfer_id: transfer.scheduledTransferId }
+      );
+    }
+    if (transfer.receiverId) {
+      await this.emit(
+        transfer.receiverId,
+        "transfer.received",
+        `transfer.received:${transfer.reference}`,
+        data
+      );
+    }
+  },
+
+  /**
+   * Retry every delivery that is due, claiming each one first so several
+   * app instances never send the same attempt
+   */
+  async runDue(now = new Date()) {
+    let attempted = 0;
+
+    for (;;) {
+      const delivery = await WebhookDelivery.findOneAndUpdate(
+        {
+          status: "pending",
+          nextAttemptAt: { $lte: now },
+          ...lockFree(now),
+        },
+        { lockedUntil: new Date(Date.now() + LOCK_MS) },
+        { new: true, sort: { nextAttemptAt: 1 } }
+      );
+
+      if (!delivery) {
+        return attempted;
+      }
+
+      await this.attempt(delivery);
+      attempted += 1;
+    }
+  },
+
+  /**
+   * Send a delivery again now, whatever its status. A delivery that had
+   * already failed or been delivered keeps its status if this attempt fails.
+   */
+  async redeliver(userId: string, id: string) {
+    const now = new Date();
+    const delivery = mongoose.isValidObjectId(id)
+      ? await WebhookDelivery.findOneAndUpdate(
+          { _id: id, userId, ...lockFree(now) },
+          { lockedUntil: new Date(now.getTime() + LOCK_MS) },
+          { new: true }
+        )
+      : null;
+
+    if (!delivery) {
+      if (
+        mongoose.isValidObjectId(id) &&
+        (await WebhookDelivery.exists({ _id: id, userId }))
+      ) {
+        throw new Error("Webhook delivery is already being sent");
+      }
+      throw new Error("Webhook delivery not found");
+    }
+
+    return this.attempt(delivery, delivery.status === "pending");
+  },
+
+  /**
+   * POST a claimed delivery to its endpoint and record the outcome. When
+   * `scheduleRetry` is set, a failed attempt is retried after
+   * retryBaseSeconds * 2^(attempts - 1), until maxAttempts.
+   */
+  async attempt(delivery: IWebhookDelivery, scheduleRetry = true) {
+    const { maxAttempts, retryBaseSeconds, timeoutMs } =
+      config.outboundWebhooks;
+    const now = new Date();
+
+    delivery.attempts += 1;
+    delivery.lastAttemptAt = now;
+    delivery.lockedUntil = undefined;
+
+    const endpoint = await WebhookEndpoint.findById(delivery.endpointId);
+    let error: string | undefined;
+
+    if (!endpoint || !endpoint.active) {
+      error = "Webhook endpoint was deleted or disabled";
+      delivery.responseStatus = undefined;
+    } else {
+      try {
+        // Checked on every attempt, since DNS can change after registration.
+        // IP literals never reach `lookup` below, so this covers them.
+        await resolvePublicHost(new URL(endpoint.url).hostname);
+
+        const response = await axios.post(endpoint.url, delivery.body, {
+          headers: {
+            "Content-Type": "application/json",
+            "x-wallet-signature": this.sign(delivery.body, endpoint.secret),
+            "x-wallet-event": delivery.event,
+            "x-wallet-delivery": delivery.id,
+          },
+          timeout: timeoutMs,
+          maxRedirects: 0,
+          validateStatus: () => true,
+          // Connect to an address that passed the check, not to whatever a
+          // second DNS answer says
+          lookup: async (hostname: string) => {
+            const [{ address, family }] = await resolvePublicHost(hostname);
+            return { address, family: family === 6 ? 6 : 4 };
+          },
+        });
+
+        delivery.responseStatus = response.status;
+        if (response.status < 200 || response.status >= 300) {
+          error = `Endpoint responded with HTTP ${response.status}`;
+        }
+      } catch (requestError: any) {
+        delivery.responseStatus = undefined;
+        error = requestError.message || "Request failed";
+      }
+    }
+
+    if (!error) {
+      delivery.status = "delivered";
+      delivery.deliveredAt = now;
+      delivery.error = undefined;
+      delivery.nextAttemptAt = undefined;
+      return delivery.save();
+    }
+
+    delivery.error = error;
+    if (!scheduleRetry) {
+      return delivery.save();
+    }
+
+    if (endpoint?.active && delivery.attempts < maxAttempts) {
+      delivery.nextAttemptAt = new Date(
+        now.getTime() +
+          retryBaseSeconds * 1000 * Math.pow(2, delivery.attempts - 1)
+      );
+    } else {
+      delivery.status = "failed";
+      delivery.nextAttemptAt = undefined;
+    }
+    return delivery.save();
+  },
+};
+
+export default webhookDeliveryService;
@@ -0,0 +1,221 @@
+import crypto from "crypto";
+import dns from "dns/promises";
+import net from "net";
+import mongoose from "mongoose";
+import {
+  OUTBOUND_EVENTS,
+  OutboundEventType,
+  WebhookEndpoint,
+} from "../models/WebhookEndpoint";
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from "../models/WebhookDelivery";
+
+const MIN_SECRET_LENGTH = 16;
+
+interface EndpointInput {
+  url?: string;
+  events?: string[];
+  secret?: string;
+  description?: string;
+  active?: boolean;
+}
+
+// Where webhooks must never be sent: this host, private and carrier-grade
+// NAT networks, link-local addresses (cloud metadata services live at
+// 169.254.169.254) and other special-purpose ranges
+const BLOCKED_RANGES: [string, number, "ipv4" | "ipv6"][] = [
+  ["0.0.0.0", 8, "ipv4"],
+  ["10.0.0.0", 8, "ipv4"],
+  ["100.64.0.0", 10, "ipv4"],
+  ["127.0.0.0", 8, "ipv4"],
+  ["169.254.0.0", 16, "ipv4"],
+  ["172.16.0.0", 12, "ipv4"],
+  ["192.0.0.0", 24, "ipv4"],
+  ["192.168.0.0", 16, "ipv4"],
+  ["198.18.0.0", 15, "ipv4"],
+  ["224.0.0.0", 3, "ipv4"], // Multicast, reserved and broadcast
+  ["::", 128, "ipv6"],
+  ["::1", 128, "ipv6"],
+  ["64:ff9b::", 96, "ipv6"], // NAT64, which can reach IPv4 ranges above
+  ["fc00::", 7, "ipv6"],
+  ["fe80::", 10, "ipv6"],
+  ["ff00::", 8, "ipv6"],
+];
+
+const blockedAddresses = new net.BlockList();
+for (const [address, prefix, type] of BLOCKED_RANGES) {
+  blockedAddresses.addSubnet(address, prefix, type);
+}
+
+const isPublicAddress = (ip: string) => {
+  // IPv4-mapped IPv6 addresses reach the IPv4 address they carry
+  const mapped = ip.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  const address = mapped ? mapped[1] : ip;
+  return !blockedAddresses.check(
+    address,
+    net.isIPv4(address) ? "ipv4" : "ipv6"
+  );
+};
+
+const PRIVATE_URL_MESSAGE = "URL must not point to a private or local address";
+
+/**
+ * Resolve a webhook host to the addresses it would be sent to, refusing
+ * hosts that resolve to any address that is not public
+ */
+export const resolvePublicHost = async (hostname: string) => {
+  // URL keeps the brackets around IPv6 literals
+  const host = hostname.replace(/^\[(.*)\]$/, "$1");
+
+  let addresses: { address: string; family: number }[];
+  if (net.isIP(host)) {
+    addresses = [{ address: host, family: net.isIP(host) }];
+  } else {
+    try {
+      addresses = await dns.lookup(host, { all: true });
+    } catch {
+      throw new Error("URL host could not be resolved");
+    }
+  }
+
+  if (
+    addresses.length === 0 ||
+    addresses.some(({ address }) => !isPublicAddress(address))
+  ) {
+    throw new Error(PRIVATE_URL_MESSAGE);
+  }
+  return addresses;
+};
+
+const validateUrl = async (url: unknown) => {
+  let parsed: URL | undefined;
+  try {
+    parsed = new URL(url as string);
+  } catch {
+    parsed = undefined;
+  }
+
+  if (
+    typeof url !== "string" ||
+    !parsed ||
+    !["http:", "https:"].includes(parsed.protocol)
+  ) {
+    throw new Error("URL must be a valid http or https URL");
+  }
+
+  await resolvePublicHost(parsed.hostname);
+  return url;
+};
+
+const validateEvents = (events: unknown) => {
+  if (
+    !Array.isArray(events) ||
+    events.length === 0 ||
+    events.some((event) => !OUTBOUND_EVENTS.includes(event))
+  ) {
+    throw new Error(
+      `Events must be a non-empty list of: ${OUTBOUND_EVENTS.join(", ")}`
+    );
+  }
+  return [...new Set(events)] as OutboundEventType[];
+};
+
+const validateSecret = (secret: unknown) => {
+  if (typeof secret !== "string" || secret.length < MIN_SECRET_LENGTH) {
+    throw new Error(
+      `Secret must be a string of at least ${MIN_SECRET_LENGTH} characters`
+    );
+  }
+  return secret;
+};
+
+/**
+ * Webhook endpoints registered by users to receive wallet events
+ */
+const webhookEndpointService = {
+  /**
+   * Register an endpoint. A signing secret is generated when none is given.
+   */
+  async create(userId: string, input: EndpointInput) {
+    return WebhookEndpoint.create({
+      userId,
+      url: await validateUrl(input.url),
+      events: validateEvents(input.events),
+      secret:
+        input.secret === undefined
+          ? `whsec_${crypto.randomBytes(24).toString("hex")}`
+          : validateSecret(input.secret),
+      description: input.description,
+    });
+  },
+
+  async list(userId: string) {
+    return WebhookEndpoint.find({ userId }).sort({ createdAt: -1 });
+  },
+
+  async get(userId: string, id: string) {
+    const endpoint = mongoose.isValidObjectId(id)
+      ? await WebhookEndpoint.findOne({ _id: id, userId })
+      : null;
+
+    if (!endpoint) {
+      throw new Error("Webhook endpoint not found");
+    }
+    return endpoint;
+  },
+
+  async update(userId: string, id: string, changes: EndpointInput) {
+    const endpoint = await this.get(userId, id);
+
+    if (changes.url !== undefined) {
+      endpoint.url = await validateUrl(changes.url);
+    }
+    if (changes.events !== undefined) {
+      endpoint.events = validateEvents(changes.events);
+    }
+    if (changes.secret !== undefined) {
+      endpoint.secret = validateSecret(changes.secret);
+    }
+    if (changes.description !== undefined) {
+      endpoint.description = changes.description;
+    }
+    if (changes.active !== undefined) {
+      endpoint.active = changes.active;
+    }
+
+    return endpoint.save();
+  },
+
+  /**
+   * Delete an endpoint. Its delivery log is kept, and deliveries still
+   * waiting for a retry fail on their next attempt.
+   */
+  async remove(userId: string, id: string) {
+    const endpoint = await this.get(userId, id);
+    await endpoint.deleteOne();
+    return endpoint;
+  },
+
+  /**
+   * Delivery log of an endpoint, newest first
+   */
+  async listDeliveries(
+    userId: string,
+    id: string,
+    status?: WebhookDeliveryStatus,
+    limit = 50
+  ) {
+    const endpoint = await this.get(userId, id);
+
+    const filter: Record<string, unknown> = { endpointId: endpoint.id };
+    if (status) {
+      filter.status = status;
+    }
+
+    return WebhookDelivery.find(filter).sort({ createdAt: -1 }).limit(limit);
+  },
+};
+
+export default webhookEndpointService;
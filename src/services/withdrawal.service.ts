@@ -0,0 +1,259 @@
+import mongoose from "mongoose";
+import { ITransaction, Transaction } from "../models/Transaction";
+import { User } from "../models/User";
+import { Wallet } from "../models/Wallet";
+import keyService from "./key.service";
+import ledgerService, { SYSTEM_ACCOUNTS } from "./ledger.service";
+import paystackService from "./wallet.service";
+import webhookService from "./webhook.service";
+
+// A withdrawal Paystack has no record of may still be on its way to Paystack
+// (a timed-out request); only after this long is it treated as never sent
+const UNKNOWN_TRANSFER_GRACE_MINUTES = 15;
+
+const withdrawalService = {
+  /**
+   * Withdraw money from a user's wallet to a Nigerian bank account. The
+   * amount is held in the payouts account while the Paystack transfer is
+   * pending; the transfer.* webhooks (or `sync`) finalise or return it. The
+   * hold is only returned here when Paystack definitely turned the transfer
+   * down; if the outcome is unknown it stays pending. Bank payouts go to
+   * NUBAN accounts, so they are always paid from the NGN wallet. When made
+   * with an API key, the key's spending limits apply. A fixed `reference`
+   * makes a repeated withdrawal fail as a duplicate, here and at Paystack.
+   */
+  async withdraw(
+    userId: string,
+    amount: number,
+    accountNumber: string,
+    bankCode: string,
+    accountName?: string,
+    reason?: string,
+    apiKeyId?: string,
+    reference = paystackService.generateTransferReference()
+  ) {
+    if (!amount || typeof amount !== "number" || amount <= 0) {
+      throw new Error("Amount must be a positive number (in kobo)");
+    }
+
+    if (!Number.isInteger(amount)) {
+      throw new Error("Amount must be a whole number of minor units");
+    }
+
+    if (!accountNumber || !/^\d{10}$/.test(accountNumber)) {
+      throw new Error("Account number must be 10 digits");
+    }
+
+    if (!bankCode) {
+      throw new Error("Bank code is required");
+    }
+
+    const wallet = await Wallet.findOne({ userId, currency: "NGN" });
+    if (!wallet) {
+      throw new Error("Wallet not found for this user");
+    }
+
+    if (wallet.balance < amount) {
+      throw new Error("Insufficient balance");
+    }
+
+    let recipientName = accountName;
+    if (!recipientName) {
+      const user = await User.findById(userId);
+      recipientName = user?.name || "Wallet user";
+    }
+
+    const recipient = await paystackService.createTransferRecipient(
+      recipientName,
+      accountNumber,
+      bankCode
+    );
+
+    // Hold the funds before asking Paystack to send them
+    const withdrawal = await mongoose.connection.transaction(
+      async (session) => {
+        if (apiKeyId) {
+          await keyService.enforceLimits(
+            apiKeyId,
+            { amount, currency: wallet.currency },
+            session
+          );
+        }
+
+        const [transaction] = await Transaction.create(
+          [
+            {
+              reference,
+              amount,
+              currency: wallet.currency,
+              type: "withdrawal",
+              status: "pending",
+              userId,
+              paystackRecipientCode: recipient.recipient_code,
+              bankAccountNumber: accountNumber,
+              bankCode,
+              apiKeyId,
+            },
+          ],
+          { session }
+        );
+
+        await ledgerService.post(
+          transaction,
+          wallet.walletNumber,
+          SYSTEM_ACCOUNTS.payouts,
+          session
+        );
+
+        return transaction;
+      }
+    );
+
+    let transfer;
+    try {
+      transfer = await paystackService.initiateTransfer(
+        amount,
+        recipient.recipient_code,
+        withdrawal.reference,
+        reason
+      );
+    } catch (error: any) {
+      // Paystack never accepted the transfer, so return the held funds
+      if (error.message?.startsWith("Paystack rejected the transfer")) {
+        await this.releaseHold(withdrawal.id, wallet.walletNumber);
+        throw error;
+      }
+
+      // Paystack may have accepted it; refunding now could pay out twice
+      console.error(
+        `Outcome of withdrawal ${withdrawal.reference} unknown; left pending:`,
+        error
+      );
+      return { reference: withdrawal.reference, status: "pending" };
+    }
+
+    await Transaction.updateOne(
+      { _id: withdrawal._id },
+      { paystackTransferCode: transfer.transfer_code }
+    );
+
+    if (transfer.status === "failed") {
+      await this.releaseHold(withdrawal.id, wallet.walletNumber);
+      return { reference: withdrawal.reference, status: "failed" };
+    }
+
+    if (transfer.status === "otp") {
+      console.warn(
+        `Withdrawal ${withdrawal.reference} is waiting for OTP approval on Paystack`
+      );
+    }
+
+    return { reference: withdrawal.reference, status: "pending" };
+  },
+
+  /**
+   * Check a pending withdrawal with Paystack and apply the outcome the way
+   * the transfer.* webhook would. Returns "unchanged" while the transfer is
+   * still in progress or waiting for OTP approval.
+   */
+  async sync(withdrawal: ITransaction, now = new Date()) {
+    const transfer = await paystackService.verifyTransfer(withdrawal.reference);
+
+    if (!transfer) {
+      const sentBefore = new Date(
+        now.getTime() - UNKNOWN_TRANSFER_GRACE_MINUTES * 60 * 1000
+      );
+      if (withdrawal.createdAt > sentBefore) {
+        return "unchanged";
+      }
+
+      const walletNumber = await webhookService.findWalletNumber(withdrawal);
+      const released = await this.releaseHold(withdrawal.id, walletNumber);
+      return released ? "processed" : "duplicate";
+    }
+
+    // Timed-out withdrawals never got their transfer code; OTP approval
+    // needs it
+    if (!withdrawal.paystackTransferCode) {
+      await Transaction.updateOne(
+        { _id: withdrawal._id },
+        { paystackTransferCode: transfer.transfer_code }
+      );
+    }
+
+    const data = {
+      id: transfer.id,
+      reference: transfer.reference,
+      amount: transfer.amount,
+      currency: transfer.currency,
+      transfer_code: transfer.transfer_code,
+    };
+    switch (transfer.status) {
+      case "success":
+      case "failed":
+      case "reversed":
+        return webhookService.settlePayout(`transfer.${transfer.status}`, {
+          ...data,
+          status: transfer.status,
+        });
+      case "abandoned":
+      case "blocked":
+      case "rejected":
+        return webhookService.settlePayout("transfer.failed", {
+          ...data,
+          status: "failed",
+        });
+      default:
+        return "unchanged";
+    }
+  },
+
+  /**
+   * Approve a withdrawal Paystack is holding for OTP confirmation. The OTP
+   * is sent to the Paystack business owner, not the wallet user.
+   */
+  async finalize(reference: string, otp: string) {
+    if (!otp || typeof otp !== "string") {
+      throw new Error("OTP is required");
+    }
+
+    const withdrawal = await Transaction.findOne({
+      reference,
+      type: "withdrawal",
+    });
+    if (!withdrawal) {
+      throw new Error("Withdrawal not found");
+    }
+    if (withdrawal.status !== "pending" || !withdrawal.paystackTransferCode) {
+      throw new Error("Withdrawal is not waiting for approval");
+    }
+
+    const transfer = await paystackService.finalizeTransfer(
+      withdrawal.paystackTransferCode,
+      otp
+    );
+    return { reference: withdrawal.reference, status: transfer.status };
+  },
+
+  async releaseHold(transactionId: string, walletNumber: string) {
+    const withdrawal = await Transaction.findById(transactionId);
+    if (!withdrawal) {
+      return false;
+    }
+
+    return ledgerService.transition(
+      withdrawal,
+      ["pending"],
+      "failed",
+      (settled, session) =>
+        ledgerService.post(
+          settled,
+          SYSTEM_ACCOUNTS.payouts,
+          walletNumber,
+          session
+        )
+    );
+  },
+};
+
+export default withdrawalService;
@@ -0,0 +1,44 @@
+import config from "../config";
+import depositReconciliationService from "../services/depositReconciliation.service";
+
+/**
+ * Periodically settle stale pending deposits inside the API process. A tick
+ * is skipped while the previous one is still running.
+ */
+export const startDepositReconciliationWorker = () => {
+  if (!config.depositReconciliation.enabled) {
+    console.log("Deposit reconciliation worker disabled");
+    return undefined;
+  }
+
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      const run = await depositReconciliationService.run();
+      if (run.checked > 0) {
+        console.log(
+          `Reconciled ${run.checked} stale deposit(s): ${run.credited} credited, ${run.failed} failed, ${run.pending} still pending, ${run.skipped} already settled, ${run.errors} error(s)`
+        );
+      }
+    } catch (error) {
+      console.error("Deposit reconciliation worker error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(
+    tick,
+    config.depositReconciliation.intervalSeconds * 1000
+  );
+  console.log(
+    `Deposit reconciliation worker polling every ${config.depositReconciliation.intervalSeconds}s`
+  );
+  return timer;
+};
@@ -0,0 +1,44 @@
+import config from "../config";
+import keyRotationService from "../services/keyRotation.service";
+
+/**
+ * Revoke rotated API keys whose grace period has ended and send expiry
+ * warnings. A tick is skipped while the previous one is still running.
+ */
+export const startKeyRotationWorker = () => {
+  if (!config.keyRotation.enabled) {
+    console.log("Key rotation worker disabled");
+    return undefined;
+  }
+
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      const revoked = await keyRotationService.revokeRotated();
+      if (revoked > 0) {
+        console.log(`Revoked ${revoked} rotated API key(s)`);
+      }
+
+      const warned = await keyRotationService.sendExpiryWarnings();
+      if (warned > 0) {
+        console.log(`Sent ${warned} API key expiry warning(s)`);
+      }
+    } catch (error) {
+      console.error("Key rotation worker error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, config.keyRotation.intervalSeconds * 1000);
+  console.log(
+    `Key rotation worker polling every ${config.keyRotation.intervalSeconds}s`
+  );
+  return timer;
+};
@@ -0,0 +1,49 @@
+import config from "../config";
+import ledgerReconciliationService from "../services/ledgerReconciliation.service";
+
+/**
+ * Generate yesterday's reconciliation report once it is due. Each tick only
+ * checks whether the report exists, so restarts and several instances
+ * produce one report per day.
+ */
+export const startLedgerReconciliationWorker = () => {
+  if (!config.ledgerReconciliation.enabled) {
+    console.log("Ledger reconciliation worker disabled");
+    return undefined;
+  }
+
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      const date = ledgerReconciliationService.previousDate();
+      if (!(await ledgerReconciliationService.get(date))) {
+        const report = await ledgerReconciliationService.generate(date);
+        console.log(
+          `Reconciliation report for ${date}: ${report.status} (${report.discrepancies.length} discrepancy(ies))`
+        );
+      }
+    } catch (error: any) {
+      // Another instance created the report first
+      if (error.code !== 11000) {
+        console.error("Ledger reconciliation worker error:", error);
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(
+    tick,
+    config.ledgerReconciliation.intervalSeconds * 1000
+  );
+  console.log(
+    `Ledger reconciliation worker polling every ${config.ledgerReconciliation.intervalSeconds}s`
+  );
+  return timer;
+};
@@ -0,0 +1,39 @@
+import config from "../config";
+import scheduledTransferService from "../services/scheduledTransfer.service";
+
+/**
+ * Poll for due scheduled transfers inside the API process. A tick is skipped
+ * while the previous one is still running.
+ */
+export const startScheduledTransferWorker = () => {
+  if (!config.scheduler.enabled) {
+    console.log("Scheduled transfer worker disabled");
+    return undefined;
+  }
+
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      const executed = await scheduledTransferService.runDue();
+      if (executed > 0) {
+        console.log(`Executed ${executed} scheduled transfer(s)`);
+      }
+    } catch (error) {
+      console.error("Scheduled transfer worker error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, config.scheduler.intervalSeconds * 1000);
+  console.log(
+    `Scheduled transfer worker polling every ${config.scheduler.intervalSeconds}s`
+  );
+  return timer;
+};
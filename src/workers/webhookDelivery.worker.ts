@@ -0,0 +1,42 @@
+import config from "../config";
+import webhookDeliveryService from "../services/webhookDelivery.service";
+
+/**
+ * Retry due outbound webhook deliveries. A tick is skipped while the
+ * previous one is still running.
+ */
+export const startWebhookDeliveryWorker = () => {
+  if (!config.outboundWebhooks.enabled) {
+    console.log("Webhook delivery worker disabled");
+    return undefined;
+  }
+
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      const attempted = await webhookDeliveryService.runDue();
+      if (attempted > 0) {
+        console.log(`Retried ${attempted} webhook delivery(ies)`);
+      }
+    } catch (error) {
+      console.error("Webhook delivery worker error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(
+    tick,
+    config.outboundWebhooks.intervalSeconds * 1000
+  );
+  console.log(
+    `Webhook delivery worker polling every ${config.outboundWebhooks.intervalSeconds}s`
+  );
+  return timer;
+};
@@ -0,0 +1,112 @@
+import { LedgerEntry } from "../src/models/LedgerEntry";
+import { ITransaction, Transaction } from "../src/models/Transaction";
+import { IWallet } from "../src/models/Wallet";
+import depositSettlementService from "../src/services/depositSettlement.service";
+import paystackService, {
+  PaystackChargeData,
+  PaystackWebhookEvent,
+} from "../src/services/wallet.service";
+import webhookService from "../src/services/webhook.service";
+import { clearDatabase, startDatabase, stopDatabase } from "./helpers/database";
+import { createWallet, reload } from "./helpers/fixtures";
+
+const AMOUNT = 500000;
+
+const createDeposit = (wallet: IWallet) =>
+  Transaction.create({
+    reference: `DEP_${wallet.walletNumber}`,
+    amount: AMOUNT,
+    currency: wallet.currency,
+    type: "deposit",
+    status: "pending",
+    userId: wallet.userId,
+  });
+
+const chargeFor = (deposit: ITransaction): PaystackChargeData => ({
+  id: 1,
+  reference: deposit.reference,
+  amount: AMOUNT,
+  currency: deposit.currency,
+  status: "success",
+  paid_at: new Date().toISOString(),
+  channel: "card",
+});
+
+/**
+ * charge.success arriving at the webhook endpoint: stored, then processed
+ */
+const receiveWebhook = async (deposit: ITransaction) => {
+  const payload: PaystackWebhookEvent = {
+    event: "charge.success",
+    data: chargeFor(deposit),
+  };
+  const event = await webhookService.record(
+    JSON.stringify(payload),
+    payload,
+    "signature",
+    true
+  );
+  return (await webhookService.process(event)).status;
+};
+
+/**
+ * The status endpoint or reconciliation job verifying with Paystack
+ */
+const poll = (deposit: ITransaction) => {
+  jest.spyOn(paystackService, "verifyTransaction").mockResolvedValue({
+    ...chargeFor(deposit),
+    status: "success",
+    transaction_date: new Date().toISOString(),
+  });
+  return depositSettlementService.syncWithPaystack(deposit);
+};
+
+const expectCreditedOnce = async (wallet: IWallet, deposit: ITransaction) => {
+  const credits = await LedgerEntry.find({
+    reference: deposit.reference,
+    direction: "credit",
+  });
+  expect(credits).toHaveLength(1);
+  expect(credits[0].account).toBe(wallet.walletNumber);
+  expect(credits[0].amount).toBe(AMOUNT);
+
+  expect((await reload(wallet)).balance).toBe(AMOUNT);
+  expect((await Transaction.findById(deposit._id))!.status).toBe("success");
+};
+
+describe("depositSettlementService", () => {
+  let wallet: IWallet;
+  let deposit: ITransaction;
+
+  beforeAll(startDatabase);
+  beforeEach(async () => {
+    wallet = await createWallet();
+    deposit = await createDeposit(wallet);
+  });
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await clearDatabase();
+  });
+  afterAll(stopDatabase);
+
+  it("credits once when the webhook arrives before the poll", async () => {
+    expect(await receiveWebhook(deposit)).toBe("processed");
+    expect(await poll(deposit)).toBe("duplicate");
+
+    await expectCreditedOnce(wallet, deposit);
+  });
+
+  it("credits once when the poll runs before the webhook", async () => {
+    expect(await poll(deposit)).toBe("processed");
+    expect(await receiveWebhook(deposit)).toBe("duplicate");
+
+    await expectCreditedOnce(wallet, deposit);
+  });
+
+  it("credits once when the webhook and the poll race", async () => {
+    const results = await Promise.all([receiveWebhook(deposit), poll(deposit)]);
+
+    expect(results.sort()).toEqual(["duplicate", "processed"]);
+    await expectCreditedOnce(wallet, deposit);
+  });
+});
@@ -0,0 +1,31 @@
+import mongoose from "mongoose";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
+
+let replSet: MongoMemoryReplSet | undefined;
+
+/**
+ * Start an in-memory single-node replica set and connect Mongoose to it.
+ * A replica set is needed because the services use MongoDB transactions.
+ */
+export const startDatabase = async () => {
+  replSet = await MongoMemoryReplSet.create({
+    replSet: { count: 1, storageEngine: "wiredTiger" },
+  });
+  await mongoose.connect(replSet.getUri());
+
+  // Transactions cannot create collections or indexes, so build them first
+  await Promise.all(
+    Object.values(mongoose.models).map((model) => model.createCollection())
+  );
+  await mongoose.connection.syncIndexes();
+};
+
+export const clearDatabase = async () => {
+  const collections = await mongoose.connection.db!.collections();
+  await Promise.all(collections.map((collection) => collection.deleteMany({})));
+};
+
+export const stopDatabase = async () => {
+  await mongoose.disconnect();
+  await replSet?.stop();
+};
@@ -0,0 +1,41 @@
+import mongoose from "mongoose";
+import { Currency, DEFAULT_CURRENCY } from "../../src/config/currencies";
+import { Transaction } from "../../src/models/Transaction";
+import { IWallet, Wallet } from "../../src/models/Wallet";
+import ledgerService from "../../src/services/ledger.service";
+
+let walletCount = 0;
+
+export const newUserId = () => new mongoose.Types.ObjectId().toString();
+
+export const createWallet = async (
+  userId = newUserId(),
+  currency: Currency = DEFAULT_CURRENCY
+) => {
+  walletCount += 1;
+  return Wallet.create({
+    walletNumber: String(4000000000000 + walletCount),
+    currency,
+    balance: 0,
+    userId,
+  });
+};
+
+/**
+ * Credit a wallet through the ledger, as a settled Paystack deposit would
+ */
+export const fundWallet = async (wallet: IWallet, amount: number) => {
+  const deposit = await Transaction.create({
+    reference: `FUND_${wallet.walletNumber}_${new mongoose.Types.ObjectId()}`,
+    amount,
+    currency: wallet.currency,
+    type: "deposit",
+    status: "success",
+    userId: wallet.userId,
+  });
+  await ledgerService.recordDeposit(deposit, wallet.walletNumber);
+  return deposit;
+};
+
+export const reload = async (wallet: IWallet) =>
+  (await Wallet.findById(wallet._id))!;
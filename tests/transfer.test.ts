@@ -0,0 +1,68 @@
+import { Transaction } from "../src/models/Transaction";
+import ledgerService, { SYSTEM_ACCOUNTS } from "../src/services/ledger.service";
+import transferService from "../src/services/transfer.service";
+import { clearDatabase, startDatabase, stopDatabase } from "./helpers/database";
+import { createWallet, fundWallet, reload } from "./helpers/fixtures";
+
+describe("transferService.transfer", () => {
+  beforeAll(startDatabase);
+  afterEach(clearDatabase);
+  afterAll(stopDatabase);
+
+  it("never overdraws the sender when transfers race", async () => {
+    const sender = await createWallet();
+    const recipient = await createWallet();
+    await fundWallet(sender, 10500);
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 20 }, () =>
+        transferService.transfer(sender.userId, recipient.walletNumber, 1000)
+      )
+    );
+
+    const failures = results.filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected"
+    );
+    expect(results.length - failures.length).toBe(10);
+    for (const failure of failures) {
+      expect(failure.reason.message).toBe("Insufficient balance");
+    }
+
+    expect((await reload(sender)).balance).toBe(500);
+    expect((await reload(recipient)).balance).toBe(10000);
+    expect(await Transaction.countDocuments({ type: "transfer" })).toBe(10);
+  });
+
+  it("keeps wallet balances equal to their ledger sums", async () => {
+    const alice = await createWallet();
+    const bob = await createWallet();
+    await fundWallet(alice, 5000);
+    await fundWallet(bob, 3000);
+
+    // Transfers in both directions at once, more than either wallet can cover
+    await Promise.allSettled([
+      ...Array.from({ length: 10 }, () =>
+        transferService.transfer(alice.userId, bob.walletNumber, 700)
+      ),
+      ...Array.from({ length: 10 }, () =>
+        transferService.transfer(bob.userId, alice.walletNumber, 400)
+      ),
+    ]);
+
+    for (const wallet of [await reload(alice), await reload(bob)]) {
+      expect(wallet.balance).toBeGreaterThanOrEqual(0);
+      expect(await ledgerService.checkWalletBalance(wallet)).toEqual({
+        balance: wallet.balance,
+        ledgerBalance: wallet.balance,
+        consistent: true,
+      });
+    }
+
+    // Transfers only move money between wallets, so the total is unchanged
+    const total = (await reload(alice)).balance + (await reload(bob)).balance;
+    expect(total).toBe(8000);
+    expect(
+      await ledgerService.getAccountBalance(SYSTEM_ACCOUNTS.paystack, "NGN")
+    ).toBe(-8000);
+  });
+});